@@ -0,0 +1,143 @@
+import type { Metafile } from 'esbuild';
+import { dirname } from 'path';
+
+/**
+ * Size contribution of a group of input modules
+ */
+export interface SizeEntry {
+  /** Package name, directory or module path */
+  name: string;
+
+  /** Bytes contributed to the output */
+  bytes: number;
+
+  /** Number of input modules in this group */
+  modules: number;
+}
+
+/**
+ * Bundle composition report built from an esbuild metafile
+ */
+export interface BundleAnalysis {
+  /** Total bytes of JavaScript output */
+  totalBytes: number;
+
+  /** Bytes contributed by input modules (excludes esbuild runtime helpers and banners) */
+  inputBytes: number;
+
+  /** Bytes contributed by modules inside node_modules */
+  nodeModulesBytes: number;
+
+  /** Bytes contributed by the project's own source files */
+  sourceBytes: number;
+
+  /** Output size grouped by npm package, largest first */
+  packages: SizeEntry[];
+
+  /** Output size of project source grouped by directory, largest first */
+  directories: SizeEntry[];
+
+  /** Largest individual input modules, largest first */
+  modules: SizeEntry[];
+}
+
+/**
+ * Options for bundle analysis
+ */
+export interface AnalyzeOptions {
+  /** Maximum number of modules to include in the largest modules list, defaults to 20 */
+  topModules?: number;
+
+  /** Directory depth used to group project source, defaults to 2 */
+  directoryDepth?: number;
+}
+
+/**
+ * Extract the npm package name from a module path, or null for project source
+ */
+export function getPackageName(modulePath: string): string | null {
+  const parts = modulePath.replace(/\\/g, '/').split('/');
+  const index = parts.lastIndexOf('node_modules');
+  if (index === -1 || index === parts.length - 1) {
+    return null;
+  }
+
+  const name = parts[index + 1];
+  if (name.startsWith('@') && index + 2 < parts.length) {
+    return `${name}/${parts[index + 2]}`;
+  }
+  return name;
+}
+
+/**
+ * Strip plugin namespaces such as "ns:path" from a metafile input path
+ */
+function stripNamespace(modulePath: string): string {
+  return modulePath.replace(/^[a-z-]+:/i, '');
+}
+
+/**
+ * Add bytes to a size group
+ */
+function addToGroup(groups: Map<string, SizeEntry>, name: string, bytes: number): void {
+  const entry = groups.get(name) || { name, bytes: 0, modules: 0 };
+  entry.bytes += bytes;
+  entry.modules += 1;
+  groups.set(name, entry);
+}
+
+/**
+ * Sort size groups by size, largest first
+ */
+function sortBySize(groups: Iterable<SizeEntry>): SizeEntry[] {
+  return [...groups].sort((a, b) => b.bytes - a.bytes || a.name.localeCompare(b.name));
+}
+
+/**
+ * Analyze the composition of a bundle from its esbuild metafile
+ */
+export function analyzeMetafile(metafile: Metafile, options: AnalyzeOptions = {}): BundleAnalysis {
+  const topModules = options.topModules ?? 20;
+  const directoryDepth = options.directoryDepth ?? 2;
+
+  const packages = new Map<string, SizeEntry>();
+  const directories = new Map<string, SizeEntry>();
+  const modules = new Map<string, SizeEntry>();
+
+  let totalBytes = 0;
+  let nodeModulesBytes = 0;
+  let sourceBytes = 0;
+
+  for (const [outputPath, output] of Object.entries(metafile.outputs)) {
+    // Only JavaScript output counts towards the bundle size
+    if (outputPath.endsWith('.map')) continue;
+    totalBytes += output.bytes;
+
+    for (const [inputPath, input] of Object.entries(output.inputs)) {
+      const bytes = input.bytesInOutput;
+      const modulePath = stripNamespace(inputPath);
+      const packageName = getPackageName(modulePath);
+
+      if (packageName) {
+        nodeModulesBytes += bytes;
+        addToGroup(packages, packageName, bytes);
+      } else {
+        sourceBytes += bytes;
+        const directory = dirname(modulePath).split('/').slice(0, directoryDepth).join('/');
+        addToGroup(directories, directory, bytes);
+      }
+
+      addToGroup(modules, modulePath, bytes);
+    }
+  }
+
+  return {
+    totalBytes,
+    inputBytes: nodeModulesBytes + sourceBytes,
+    nodeModulesBytes,
+    sourceBytes,
+    packages: sortBySize(packages.values()),
+    directories: sortBySize(directories.values()),
+    modules: sortBySize(modules.values()).slice(0, topModules),
+  };
+}
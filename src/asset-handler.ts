@@ -1,6 +1,7 @@
 import { copyFileSync, existsSync, mkdirSync } from 'fs';
 import { glob } from 'glob';
 import { dirname, join, relative } from 'path';
+import type { AssetManifest } from './asset-manifest.js';
 import type { BackbundleConfig } from './types.js';
 
 /**
@@ -19,20 +20,22 @@ export type AssetStrategy = 'copy' | 'external' | 'ignore' | 'inline';
 export class AssetHandler {
     private config: BackbundleConfig;
     private outputDir: string;
+    private manifest?: AssetManifest;
 
-    constructor(config: BackbundleConfig, outputDir: string) {
+    constructor(config: BackbundleConfig, outputDir: string, manifest?: AssetManifest) {
         this.config = config;
         this.outputDir = outputDir;
+        this.manifest = manifest;
     }
 
     /**
      * Detect WASM packages in node_modules
      */
-    detectWasmPackages(): string[] {
+    detectWasmPackages(baseDir: string = process.cwd()): string[] {
         const wasmPackages: string[] = [];
 
         try {
-            const nodeModulesPath = join(process.cwd(), 'node_modules');
+            const nodeModulesPath = join(baseDir, 'node_modules');
             if (!existsSync(nodeModulesPath)) return wasmPackages;
 
             // Look for .wasm files in node_modules (supports both npm and pnpm structures)
@@ -98,8 +101,7 @@ export class AssetHandler {
                     externals.push(packageName);
                     break;
                 case 'inline':
-                    // WASM files typically cannot be inlined effectively, fall back to copy
-                    this.copyWasmFiles(packagePath, packageName, wasmConfig.preserveStructure);
+                    // Embedded into the bundle by the wasm-inline plugin
                     break;
                 case undefined:
                 default:
@@ -161,6 +163,7 @@ export class AssetHandler {
 
                 // Copy the WASM file
                 copyFileSync(sourcePath, targetPath);
+                this.manifest?.add(packageName, wasmFile, relative(this.outputDir, targetPath));
                 console.log(`📦 Copied WASM: ${packageName}/${wasmFile} → ${relative(process.cwd(), targetPath)}`);
             }
         } catch (error) {
@@ -191,8 +194,7 @@ export class AssetHandler {
                     externals.push(packageName);
                     break;
                 case 'inline':
-                    // Assets can sometimes be inlined, but for now we copy them
-                    this.copyAssetFiles(packagePath, packageName, extensions, assetConfig.preserveStructure);
+                    // Embedded into the bundle by the asset-inline plugin
                     break;
                 case undefined:
                 default:
@@ -225,6 +227,7 @@ export class AssetHandler {
 
                 // Copy the asset file
                 copyFileSync(sourcePath, targetPath);
+                this.manifest?.add(packageName, assetFile, relative(this.outputDir, targetPath));
                 console.log(`📄 Copied asset: ${packageName}/${assetFile} → ${relative(process.cwd(), targetPath)}`);
             }
         } catch (error) {
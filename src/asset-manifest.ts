@@ -0,0 +1,59 @@
+import { rmSync, writeFileSync } from 'fs';
+import { join, sep } from 'path';
+import { ASSET_MANIFEST_FILE, type AssetManifestData } from './runtime.js';
+
+/**
+ * Records where copy steps put package files, relative to the bundle directory
+ */
+export class AssetManifest {
+  private files = new Map<string, string>();
+
+  /**
+   * Record a copied package file or directory; an empty file records the package itself
+   */
+  add(packageName: string, file: string, output: string): void {
+    const key = [packageName, ...file.split(/[\\/]/)].filter(Boolean).join('/');
+    this.files.set(key, output.split(sep).join('/'));
+  }
+
+  /**
+   * Get the output path recorded for a package file
+   */
+  get(packageName: string, file: string): string | undefined {
+    return this.files.get([packageName, ...file.split(/[\\/]/)].filter(Boolean).join('/'));
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.files.clear();
+  }
+
+  get size(): number {
+    return this.files.size;
+  }
+
+  toJSON(): AssetManifestData {
+    const files = [...this.files].sort(([a], [b]) => a.localeCompare(b));
+    return { version: 1, files: Object.fromEntries(files) };
+  }
+}
+
+/**
+ * Write the manifest next to the bundle, returning the manifest path.
+ * A manifest left by an earlier build is removed when nothing was copied.
+ */
+export function writeAssetManifest(outputDir: string, manifest: AssetManifest): string | null {
+  const manifestPath = join(outputDir, ASSET_MANIFEST_FILE);
+  if (manifest.size === 0) {
+    rmSync(manifestPath, { force: true });
+    return null;
+  }
+
+  writeFileSync(manifestPath, JSON.stringify(manifest, null, 2) + '\n');
+  return manifestPath;
+}
+
+export { ASSET_MANIFEST_FILE };
+export type { AssetManifestData };
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { filterBinaryFiles, getHostTarget, matchesBinaryTarget, parseBinaryTarget } from './binary-handler.js';
+
+/** A target other than this machine, which cannot load addons compiled here */
+const foreign = parseBinaryTarget(process.arch === 'arm64' ? 'linux-x64' : 'linux-arm64');
+
+describe('parseBinaryTarget', () => {
+  it('parses platform, architecture and libc', () => {
+    assert.deepEqual(parseBinaryTarget('linux-x64-glibc'), { platform: 'linux', arch: 'x64', libc: 'glibc' });
+    assert.deepEqual(parseBinaryTarget('Linux-ARM64-musl'), { platform: 'linux', arch: 'arm64', libc: 'musl' });
+    assert.deepEqual(parseBinaryTarget('darwin-arm64'), { platform: 'darwin', arch: 'arm64', libc: undefined });
+  });
+
+  it('rejects unknown platforms, architectures and libcs', () => {
+    assert.throws(() => parseBinaryTarget('beos-x64'), /Invalid binary target/);
+    assert.throws(() => parseBinaryTarget('linux'), /Invalid binary target/);
+    assert.throws(() => parseBinaryTarget('linux-x64-glibc-extra'), /Invalid binary target/);
+    assert.throws(() => parseBinaryTarget('linux-x64-uclibc'), /Invalid libc/);
+  });
+
+  it('only allows a libc for linux', () => {
+    assert.throws(() => parseBinaryTarget('darwin-arm64-musl'), /can only specify a libc for linux/);
+  });
+});
+
+describe('matchesBinaryTarget', () => {
+  const glibc = parseBinaryTarget('linux-x64-glibc');
+  const musl = parseBinaryTarget('linux-x64-musl');
+
+  it('returns null for paths without a platform or architecture', () => {
+    assert.equal(matchesBinaryTarget('lib/addon.node', glibc), null);
+  });
+
+  it('only matches addons compiled on install for the host target', () => {
+    assert.equal(matchesBinaryTarget('build/Release/addon.node', foreign), false);
+    assert.equal(matchesBinaryTarget('build/Release/addon.node', getHostTarget()), null);
+  });
+
+  it('matches the platform and architecture, including their aliases', () => {
+    assert.equal(matchesBinaryTarget('prebuilds/linux-x64/addon.node', glibc), true);
+    assert.equal(matchesBinaryTarget('lib/binding/linux-x86_64/addon.node', glibc), true);
+    assert.equal(matchesBinaryTarget('prebuilds/linux-arm64/addon.node', glibc), false);
+    assert.equal(matchesBinaryTarget('prebuilds/darwin-x64/addon.node', glibc), false);
+    assert.equal(matchesBinaryTarget('prebuilds/win32-x64/addon.dll', glibc), false);
+  });
+
+  it('matches the libc of tagged Linux prebuilds', () => {
+    assert.equal(matchesBinaryTarget('prebuilds/linux-x64/addon.musl.node', musl), true);
+    assert.equal(matchesBinaryTarget('prebuilds/linux-x64/addon.musl.node', glibc), false);
+    assert.equal(matchesBinaryTarget('prebuilds/linux-x64/addon.glibc.node', musl), false);
+  });
+
+  it('treats untagged Linux prebuilds as glibc builds when a musl variant sits next to them', () => {
+    const files = ['prebuilds/linux-x64/addon.glibc.node', 'prebuilds/linux-x64/addon.node', 'prebuilds/linux-x64/addon.musl.node'];
+    assert.equal(matchesBinaryTarget('prebuilds/linux-x64/addon.node', musl, files), false);
+    assert.equal(matchesBinaryTarget('prebuilds/linux-x64/addon.node', musl, ['prebuilds/linux-x64/addon.node']), true);
+  });
+});
+
+describe('filterBinaryFiles', () => {
+  it('fails when the only addon was compiled on install for another target', () => {
+    assert.throws(() => filterBinaryFiles('addon', ['build/Release/addon.node'], foreign), /No prebuilt binary of addon/);
+  });
+
+  it('keeps prebuilds for the target next to addons compiled on install', () => {
+    const prebuild = `prebuilds/${foreign.platform}-${foreign.arch}/addon.node`;
+    assert.deepEqual(filterBinaryFiles('addon', ['build/Release/addon.node', prebuild], foreign), {
+      kept: [prebuild],
+      skipped: ['build/Release/addon.node'],
+    });
+  });
+});
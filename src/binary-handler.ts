@@ -1,9 +1,13 @@
-import { copyFileSync, existsSync, mkdirSync, readdirSync, statSync } from 'fs';
-import { dirname, join, relative } from 'path';
-import type { BackbundleConfig } from './types.js';
+import { copyFileSync, existsSync, mkdirSync, readdirSync, realpathSync, statSync } from 'fs';
+import { globSync } from 'glob';
+import { dirname, join, relative, sep } from 'path';
+import type { AssetManifest } from './asset-manifest.js';
+import { getRecipe, getRecipes } from './recipes.js';
+import { findPackageDir, StandaloneTracer } from './standalone.js';
+import type { BackbundleConfig, PackageRecipe } from './types.js';
 
 /**
- * Common binary packages that need special handling
+ * Common packages with native addons, see recipes.ts for packages that need more than their addons copied
  */
 const KNOWN_BINARY_PACKAGES = [
   // Database drivers
@@ -11,9 +15,6 @@ const KNOWN_BINARY_PACKAGES = [
   'better-sqlite3',
   'node-oracledb',
   'oracledb',
-  'pg',
-  'mysql',
-  'mysql2',
 
   // Image processing
   'sharp',
@@ -27,15 +28,12 @@ const KNOWN_BINARY_PACKAGES = [
   // Native modules
   'bcrypt',
   'argon2',
-  'node-gyp',
 
   // Serialization
   'msgpack',
-  'protobufjs',
 
   // System integration
   'node-pty',
-  'node-ssh',
   'node-ffi',
 
   // Performance
@@ -43,6 +41,210 @@ const KNOWN_BINARY_PACKAGES = [
   're2',
 ];
 
+/**
+ * Deploy target for native binaries
+ */
+export interface BinaryTarget {
+  /** Operating system, as reported by process.platform */
+  platform: string;
+
+  /** CPU architecture, as reported by process.arch */
+  arch: string;
+
+  /** C library on Linux */
+  libc?: 'glibc' | 'musl';
+}
+
+const BINARY_PLATFORMS = ['linux', 'darwin', 'win32', 'freebsd', 'openbsd', 'android', 'sunos', 'aix'];
+
+const BINARY_ARCHS = ['x64', 'arm64', 'arm', 'ia32', 'ppc64', 's390x', 'riscv64', 'loong64'];
+
+/**
+ * Path tokens that identify a platform, architecture or libc in prebuilt binary paths
+ */
+const PLATFORM_ALIASES: Record<string, string> = {
+  linuxmusl: 'linux',
+  win: 'win32',
+  windows: 'win32',
+  macos: 'darwin',
+  osx: 'darwin',
+};
+
+const ARCH_ALIASES: Record<string, string> = {
+  armv6: 'arm',
+  armv7: 'arm',
+  armhf: 'arm',
+  aarch64: 'arm64',
+  amd64: 'x64',
+  x86_64: 'x64',
+  x86: 'ia32',
+};
+
+const LIBC_ALIASES: Record<string, 'glibc' | 'musl'> = {
+  glibc: 'glibc',
+  gnu: 'glibc',
+  musl: 'musl',
+  linuxmusl: 'musl',
+  alpine: 'musl',
+};
+
+/**
+ * Parse a deploy target such as "linux-x64-glibc", "linux-arm64-musl" or "darwin-arm64"
+ */
+export function parseBinaryTarget(target: string): BinaryTarget {
+  const [platform, arch, libc, ...rest] = target.toLowerCase().split('-');
+
+  if (!BINARY_PLATFORMS.includes(platform) || !arch || !BINARY_ARCHS.includes(arch) || rest.length > 0) {
+    throw new Error(`Invalid binary target "${target}", expected <platform>-<arch>[-<libc>] such as linux-x64-glibc or linux-arm64-musl`);
+  }
+
+  if (libc !== undefined && libc !== 'glibc' && libc !== 'musl') {
+    throw new Error(`Invalid libc "${libc}" in binary target "${target}", expected glibc or musl`);
+  }
+
+  if (libc && platform !== 'linux') {
+    throw new Error(`Binary target "${target}" can only specify a libc for linux`);
+  }
+
+  return { platform, arch, libc };
+}
+
+/**
+ * Format a binary target as a string
+ */
+export function formatBinaryTarget(target: BinaryTarget): string {
+  return [target.platform, target.arch, target.libc].filter(Boolean).join('-');
+}
+
+/**
+ * Read the platform, architecture and libc encoded in a binary file path
+ */
+function getPathTarget(file: string): Partial<BinaryTarget> {
+  const tokens = file.toLowerCase().split(/[\\/._-]+/);
+  const pathTarget: Partial<BinaryTarget> = {};
+
+  // Tokens like "x86_64" span a separator, so check adjacent pairs first
+  const candidates = [...tokens.slice(1).map((token, i) => `${tokens[i]}_${token}`), ...tokens];
+
+  for (const token of candidates) {
+    const platform = BINARY_PLATFORMS.includes(token) ? token : PLATFORM_ALIASES[token];
+    if (platform && !pathTarget.platform) pathTarget.platform = platform;
+
+    const arch = BINARY_ARCHS.includes(token) ? token : ARCH_ALIASES[token];
+    if (arch && !pathTarget.arch) pathTarget.arch = arch;
+
+    const libc = LIBC_ALIASES[token];
+    if (libc && !pathTarget.libc) pathTarget.libc = libc;
+  }
+
+  // File types that only exist on one platform
+  if (!pathTarget.platform) {
+    if (/\.(dll|exe)$/i.test(file)) pathTarget.platform = 'win32';
+    if (/\.dylib$/i.test(file)) pathTarget.platform = 'darwin';
+  }
+
+  return pathTarget;
+}
+
+/**
+ * Check whether a file was compiled by node-gyp when the package was installed
+ */
+function isCompiledBinary(file: string): boolean {
+  return /(^|[\\/])build[\\/](Release|Debug)[\\/]/.test(file);
+}
+
+let hostLibc: 'glibc' | 'musl' | undefined;
+
+/**
+ * Get the platform, architecture and libc of this machine
+ */
+export function getHostTarget(): BinaryTarget {
+  if (process.platform !== 'linux') {
+    return { platform: process.platform, arch: process.arch };
+  }
+
+  if (!hostLibc) {
+    // Node.js only reports a glibc version when it runs against glibc
+    const report: unknown = process.report.getReport();
+    const header = typeof report === 'object' && report !== null && 'header' in report ? report.header : null;
+    hostLibc = typeof header === 'object' && header !== null && 'glibcVersionRuntime' in header ? 'glibc' : 'musl';
+  }
+  return { platform: process.platform, arch: process.arch, libc: hostLibc };
+}
+
+/**
+ * Check whether a target can load addons compiled on this machine
+ */
+export function isHostTarget(target: BinaryTarget): boolean {
+  const host = getHostTarget();
+  return target.platform === host.platform && target.arch === host.arch && (!target.libc || target.libc === host.libc);
+}
+
+/**
+ * Check whether a binary file path is built for the deploy target.
+ * Addons compiled on install only match targets this machine can stand in for,
+ * other paths that do not encode a platform or architecture return null.
+ */
+export function matchesBinaryTarget(file: string, target: BinaryTarget, siblings: string[] = []): boolean | null {
+  const pathTarget = getPathTarget(file);
+
+  if (!pathTarget.platform && !pathTarget.arch) {
+    return isCompiledBinary(file) && !isHostTarget(target) ? false : null;
+  }
+
+  if (pathTarget.platform && pathTarget.platform !== target.platform) return false;
+  if (pathTarget.arch && pathTarget.arch !== target.arch) return false;
+
+  if (target.platform === 'linux' && target.libc) {
+    if (pathTarget.libc) {
+      return pathTarget.libc === target.libc;
+    }
+
+    // Untagged Linux prebuilds are glibc builds when a musl variant sits next to them
+    if (target.libc === 'musl') {
+      const dir = dirname(file);
+      return !siblings.some(sibling => dirname(sibling) === dir && getPathTarget(sibling).libc === 'musl');
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Keep only the binary files built for the deploy target, failing when a package has native addons but none for the target
+ */
+export function filterBinaryFiles(
+  packageName: string,
+  files: string[],
+  target: BinaryTarget
+): { kept: string[]; skipped: string[] } {
+  const kept: string[] = [];
+  const skipped: string[] = [];
+
+  for (const file of files) {
+    if (matchesBinaryTarget(file, target, files) === false) {
+      skipped.push(file);
+    } else {
+      kept.push(file);
+    }
+  }
+
+  const isAddon = (file: string) => file.endsWith('.node');
+  if (files.some(isAddon) && !kept.some(isAddon)) {
+    const available = [...new Set(skipped.filter(isAddon).map(file => {
+      if (isCompiledBinary(file)) return `${formatBinaryTarget(getHostTarget())} (compiled on install)`;
+
+      const { platform = '?', arch = '?', libc } = getPathTarget(file);
+      return formatBinaryTarget({ platform, arch, libc });
+    }))].sort((a, b) => a.localeCompare(b));
+    throw new Error(
+      `No prebuilt binary of ${packageName} for ${formatBinaryTarget(target)} (available: ${available.join(', ')})`
+    );
+  }
+
+  return { kept, skipped };
+}
+
 /**
  * Detect if a package likely contains binary files
  */
@@ -103,6 +305,17 @@ function getAllFiles(dir: string, maxDepth: number = 3, currentDepth: number = 0
   return files;
 }
 
+/**
+ * Get the directory, relative to the bundle output, that binary files are copied into
+ */
+export function getBinaryDir(config: BackbundleConfig): string {
+  const binaryConfig = config.binaryPackages || {};
+  if (binaryConfig.outputDir) {
+    return binaryConfig.outputDir;
+  }
+  return binaryConfig.preserveStructure !== false ? 'node_modules' : 'binaries';
+}
+
 /**
  * Copy binary files from a package to output directory
  */
@@ -110,7 +323,9 @@ export function copyBinaryFiles(
   packageName: string,
   packagePath: string,
   outputPath: string,
-  preserveStructure: boolean = true
+  binaryDir: string = 'node_modules',
+  target?: BinaryTarget,
+  manifest?: AssetManifest
 ): string[] {
   const copiedFiles: string[] = [];
 
@@ -125,29 +340,33 @@ export function copyBinaryFiles(
     /build\/Release\//,
   ];
 
-  try {
-    const files = getAllFiles(packagePath);
+  const files = getAllFiles(packagePath).filter(file => binaryPatterns.some(pattern => pattern.test(file)));
+  let filesToCopy = files;
 
-    for (const file of files) {
-      if (binaryPatterns.some(pattern => pattern.test(file))) {
-        const sourcePath = join(packagePath, file);
+  if (target) {
+    const { kept, skipped } = filterBinaryFiles(packageName, files, target);
+    filesToCopy = kept;
 
-        let targetPath: string;
-        if (preserveStructure) {
-          targetPath = join(outputPath, 'node_modules', packageName, file);
-        } else {
-          targetPath = join(outputPath, 'binaries', packageName, file);
-        }
+    if (skipped.length > 0) {
+      console.log(`✂️  Skipped ${skipped.length} ${packageName} binaries for other targets`);
+    }
+  }
 
-        // Ensure target directory exists
-        mkdirSync(dirname(targetPath), { recursive: true });
+  try {
+    for (const file of filesToCopy) {
+      const sourcePath = join(packagePath, file);
 
-        // Copy the file
-        copyFileSync(sourcePath, targetPath);
-        copiedFiles.push(targetPath);
+      const targetPath = join(outputPath, binaryDir, packageName, file);
 
-        console.log(`📦 Copied binary: ${packageName}/${file}`);
-      }
+      // Ensure target directory exists
+      mkdirSync(dirname(targetPath), { recursive: true });
+
+      // Copy the file
+      copyFileSync(sourcePath, targetPath);
+      copiedFiles.push(targetPath);
+      manifest?.add(packageName, file, relative(outputPath, targetPath));
+
+      console.log(`📦 Copied binary: ${packageName}/${file}`);
     }
   } catch (error) {
     console.warn(`⚠️  Failed to copy binaries for ${packageName}:`, error);
@@ -156,42 +375,243 @@ export function copyBinaryFiles(
   return copiedFiles;
 }
 
+/**
+ * Convert a pattern where `*` matches within a path segment into a regular expression source
+ */
+function globToRegExpSource(pattern: string): string {
+  return pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('[^/]*');
+}
+
+/**
+ * Copy the files listed by a package recipe, resolving `<package>:<pattern>` entries from the recipe's package
+ */
+function copyRecipeFiles(
+  recipe: PackageRecipe,
+  files: string[],
+  packageDir: string,
+  outputPath: string,
+  binaryDir: string,
+  target?: BinaryTarget,
+  manifest?: AssetManifest
+): string[] {
+  const copiedFiles: string[] = [];
+  const patternsByPackage = new Map<string, string[]>();
+
+  for (const entry of files) {
+    const separator = entry.indexOf(':');
+    const packageName = separator === -1 ? recipe.name : entry.slice(0, separator);
+    const pattern = separator === -1 ? entry : entry.slice(separator + 1);
+    patternsByPackage.set(packageName, [...(patternsByPackage.get(packageName) || []), pattern]);
+  }
+
+  for (const [packageName, patterns] of patternsByPackage) {
+    const sourceDir = packageName === recipe.name ? packageDir : findPackageDir(packageName, packageDir);
+    if (!sourceDir) {
+      console.warn(`⚠️  Package ${packageName} needed by ${recipe.name} not found`);
+      continue;
+    }
+
+    let filesToCopy = globSync(patterns, { cwd: sourceDir, nodir: true, dot: true, ignore: ['node_modules/**'] })
+      .sort((a, b) => a.localeCompare(b));
+
+    if (target) {
+      const { kept, skipped } = filterBinaryFiles(packageName, filesToCopy, target);
+      filesToCopy = kept;
+
+      if (skipped.length > 0) {
+        console.log(`✂️  Skipped ${skipped.length} ${packageName} binaries for other targets`);
+      }
+    }
+
+    for (const file of filesToCopy) {
+      const targetPath = recipe.outputDir !== undefined
+        ? join(outputPath, recipe.outputDir, file)
+        : join(outputPath, binaryDir, packageName, file);
+
+      mkdirSync(dirname(targetPath), { recursive: true });
+      copyFileSync(join(sourceDir, file), targetPath);
+      copiedFiles.push(targetPath);
+      manifest?.add(packageName, file, relative(outputPath, targetPath));
+
+      console.log(`📦 Copied binary: ${packageName}/${file}`);
+    }
+  }
+
+  return copiedFiles;
+}
+
+/**
+ * Find the additional packages of a recipe next to the recipe's package and in the project node_modules
+ */
+function findRecipePackages(recipe: PackageRecipe, packageDir: string, nodeModulesPath: string): Map<string, string> {
+  const packages = new Map<string, string>();
+  if (!recipe.packages || recipe.packages.length === 0) return packages;
+
+  // The node_modules directory holding the package, which differs from the project's with pnpm
+  const siblingsDir = join(packageDir, ...recipe.name.split('/').map(() => '..'));
+  const patterns = recipe.packages.map(pattern => `${pattern}/package.json`);
+
+  for (const dir of [siblingsDir, nodeModulesPath]) {
+    for (const file of globSync(patterns, { cwd: dir, dot: true })) {
+      const name = dirname(file).split(sep).join('/');
+      if (!packages.has(name)) packages.set(name, join(dir, dirname(file)));
+    }
+  }
+
+  return packages;
+}
+
+/**
+ * Resolve the environment variables of a recipe against the files it copied
+ */
+function resolveRecipeEnv(recipe: PackageRecipe, copiedFiles: string[], outputPath: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  const outputs = copiedFiles.map(file => relative(outputPath, file).split(sep).join('/'));
+
+  for (const [key, value] of Object.entries(recipe.env || {})) {
+    if (!value.includes('*')) {
+      env[key] = value;
+      continue;
+    }
+
+    const pattern = new RegExp(`(^|/)${globToRegExpSource(value)}$`);
+    const match = outputs.find(output => pattern.test(output));
+    if (match) {
+      env[key] = match;
+    } else {
+      console.warn(`⚠️  No copied file of ${recipe.name} matches ${key}=${value}`);
+    }
+  }
+
+  return env;
+}
+
+/**
+ * Copy a package the way its recipe describes, returning the externals and environment variables it needs
+ */
+export function applyPackageRecipe(
+  recipe: PackageRecipe,
+  config: BackbundleConfig,
+  nodeModulesPath: string,
+  outputDir: string,
+  manifest?: AssetManifest
+): {
+  external: string[];
+  copiedFiles: string[];
+  env: Record<string, string>;
+} {
+  const binaryConfig = config.binaryPackages || {};
+  const target = binaryConfig.target ? parseBinaryTarget(binaryConfig.target) : undefined;
+  const packagePath = join(nodeModulesPath, recipe.name);
+  const packageDir = realpathSync(packagePath);
+  const locate = recipe.locate || 'loader';
+
+  const external = [...(recipe.external || [])];
+  let copiedFiles: string[] = [];
+
+  if (locate === 'node_modules') {
+    // Copied as a real package with its dependencies, so the runtime resolves it from node_modules
+    const tracer = new StandaloneTracer(dirname(nodeModulesPath), target);
+    tracer.traceSpecifier(recipe.name);
+
+    for (const [name, dir] of findRecipePackages(recipe, packageDir, nodeModulesPath)) {
+      if (target && matchesBinaryTarget(name, target) === false) continue;
+      tracer.tracePackageDirectory(name, dir);
+    }
+
+    const result = tracer.copyTo(outputDir, manifest);
+    external.push(recipe.name);
+    console.log(`📦 Copied ${recipe.name} into node_modules: ${result.packages.join(', ')} (${result.files} files)`);
+  }
+
+  if (recipe.files) {
+    copiedFiles = copyRecipeFiles(recipe, recipe.files, packageDir, outputDir, getBinaryDir(config), target, manifest);
+  } else if (locate !== 'node_modules') {
+    copiedFiles = copyBinaryFiles(recipe.name, packagePath, outputDir, getBinaryDir(config), target, manifest);
+  }
+
+  // Bundled packages load the copied addons through rewritten loaders
+  if (locate === 'loader' && binaryConfig.rewriteLoaders === false) {
+    external.push(recipe.name);
+  }
+
+  return { external, copiedFiles, env: resolveRecipeEnv(recipe, copiedFiles, outputDir) };
+}
+
+/**
+ * Detect the installed packages with native files, without copying anything.
+ * Packages a recipe handles, such as sharp's platform packages, are reported under the recipe's package.
+ */
+export function detectBinaryPackages(config: BackbundleConfig, nodeModulesPath: string): string[] {
+  const found = new Set<string>();
+
+  try {
+    // Scoped packages sit one level deeper
+    const packages = readdirSync(nodeModulesPath).flatMap(name => name.startsWith('@')
+      ? readdirSync(join(nodeModulesPath, name)).map(child => `${name}/${child}`)
+      : [name]);
+    for (const pkg of packages) {
+      if (pkg.startsWith('.')) continue;
+
+      const packagePath = join(nodeModulesPath, pkg);
+      if (statSync(packagePath).isDirectory() && isBinaryPackage(pkg, packagePath)) {
+        found.add(pkg);
+      }
+    }
+  } catch {
+    // Ignore errors when reading node_modules
+  }
+
+  for (const recipe of getRecipes(config)) {
+    if (!existsSync(join(nodeModulesPath, recipe.name, 'package.json'))) continue;
+
+    const patterns = (recipe.packages || []).map(pattern => new RegExp(`^${globToRegExpSource(pattern)}$`));
+    const handled = [...found].filter(pkg => pkg === recipe.name || patterns.some(pattern => pattern.test(pkg)));
+    for (const pkg of handled) found.delete(pkg);
+    if (handled.length > 0) found.add(recipe.name);
+  }
+
+  return [...found];
+}
+
 /**
  * Handle binary packages based on configuration
  */
 export function handleBinaryPackages(
   config: BackbundleConfig,
   nodeModulesPath: string,
-  outputDir: string
+  outputDir: string,
+  manifest?: AssetManifest
 ): {
   external: string[];
   copiedFiles: string[];
+  env: Record<string, string>;
+  /** Packages whose addons were copied for their JavaScript loaders */
+  copiedPackages: string[];
 } {
   const binaryConfig = config.binaryPackages || {};
   const strategy = binaryConfig.strategy || 'external';
   const explicitPackages = binaryConfig.packages || [];
-  const preserveStructure = binaryConfig.preserveStructure !== false;
+  const binaryDir = getBinaryDir(config);
+  const target = binaryConfig.target ? parseBinaryTarget(binaryConfig.target) : undefined;
 
   const external: string[] = [];
   const copiedFiles: string[] = [];
+  const env: Record<string, string> = {};
+  const copiedPackages: string[] = [];
 
   // Get all packages to check
   const packagesToCheck = new Set(explicitPackages);
 
   // Auto-detect binary packages if not explicitly specified
   if (explicitPackages.length === 0) {
-    try {
-      const packages = readdirSync(nodeModulesPath);
-      for (const pkg of packages) {
-        if (pkg.startsWith('.')) continue;
-
-        const packagePath = join(nodeModulesPath, pkg);
-        if (statSync(packagePath).isDirectory() && isBinaryPackage(pkg, packagePath)) {
-          packagesToCheck.add(pkg);
-        }
-      }
-    } catch {
-      // Ignore errors when reading node_modules
+    for (const pkg of detectBinaryPackages(config, nodeModulesPath)) {
+      packagesToCheck.add(pkg);
+    }
+
+    // Installed packages with a recipe are handled even without native files of their own
+    for (const recipe of getRecipes(config)) {
+      if (existsSync(join(nodeModulesPath, recipe.name, 'package.json'))) packagesToCheck.add(recipe.name);
     }
   }
 
@@ -204,20 +624,38 @@ export function handleBinaryPackages(
       continue;
     }
 
+    const recipe = getRecipe(config, packageName);
+
     switch (strategy) {
       case 'copy':
+        if (recipe) {
+          const result = applyPackageRecipe(recipe, config, nodeModulesPath, outputDir, manifest);
+          external.push(...result.external);
+          copiedFiles.push(...result.copiedFiles);
+          Object.assign(env, result.env);
+          if ((recipe.locate || 'loader') === 'loader') copiedPackages.push(packageName);
+          break;
+        }
+
         const copied = copyBinaryFiles(
           packageName,
           packagePath,
           outputDir,
-          preserveStructure
+          binaryDir,
+          target,
+          manifest
         );
         copiedFiles.push(...copied);
-        external.push(packageName);
+        copiedPackages.push(packageName);
+
+        // Bundled packages load the copied addons through rewritten loaders
+        if (binaryConfig.rewriteLoaders === false) {
+          external.push(packageName);
+        }
         break;
 
       case 'external':
-        external.push(packageName);
+        external.push(packageName, ...(recipe?.external || []));
         console.log(`🔗 Marked as external: ${packageName}`);
         break;
 
@@ -227,7 +665,7 @@ export function handleBinaryPackages(
     }
   }
 
-  return { external, copiedFiles };
+  return { external, copiedFiles, env, copiedPackages };
 }
 
 /**
@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { pathToFileURL } from 'node:url';
+import { bundle, Bundler, getEntryOptions } from './bundler.js';
+
+const root = mkdtempSync(join(tmpdir(), 'backbundle-bundler-'));
+after(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('getEntryOptions', () => {
+  it('writes a single entry to the output file', () => {
+    assert.deepEqual(getEntryOptions({ entry: 'src/index.ts', output: 'dist/index.js' }), {
+      entryPoints: ['src/index.ts'],
+      outfile: 'dist/index.js',
+    });
+  });
+
+  it('writes multiple entries into the output directory', () => {
+    assert.deepEqual(getEntryOptions({ entry: ['src/a.ts', 'src/b.ts'], output: 'dist' }), {
+      entryPoints: ['src/a.ts', 'src/b.ts'],
+      outdir: 'dist',
+    });
+    assert.deepEqual(getEntryOptions({ entry: { api: 'src/api.ts' }, output: 'dist' }), {
+      entryPoints: { api: 'src/api.ts' },
+      outdir: 'dist',
+    });
+  });
+
+  it('names a split single entry after the output file', () => {
+    assert.deepEqual(getEntryOptions({ entry: 'src/index.ts', output: 'dist/server.js', splitting: true }), {
+      entryPoints: { server: 'src/index.ts' },
+      outdir: 'dist',
+    });
+    assert.deepEqual(getEntryOptions({ entry: 'src/index.ts', output: 'dist/server.mjs', splitting: true }), {
+      entryPoints: { server: 'src/index.ts' },
+      outdir: 'dist',
+      outExtension: { '.js': '.mjs' },
+    });
+  });
+
+  it('keeps multiple split entries in the output directory', () => {
+    assert.deepEqual(getEntryOptions({ entry: ['src/a.ts', 'src/b.ts'], output: 'dist', splitting: true }), {
+      entryPoints: ['src/a.ts', 'src/b.ts'],
+      outdir: 'dist',
+    });
+  });
+});
+
+describe('Bundler splitting', () => {
+  const srcDir = join(root, 'src');
+  const outDir = join(root, 'dist');
+  mkdirSync(srcDir, { recursive: true });
+  writeFileSync(join(srcDir, 'shared.ts'), 'export const dir = () => __dirname;');
+  writeFileSync(join(srcDir, 'a.ts'), "import { dir } from './shared';\nexport const a = () => dir();");
+  writeFileSync(join(srcDir, 'b.ts'), "import { dir } from './shared';\nexport const b = () => dir();");
+
+  const config = { entry: [join(srcDir, 'a.ts'), join(srcDir, 'b.ts')], output: outDir, format: 'esm' as const, splitting: true };
+  const bundler = new Bundler(config);
+  after(() => bundler.dispose());
+
+  it('reports the entry points and the chunks they share', async () => {
+    const result = await bundler.rebuild();
+    assert.equal(result.success, true, result.errors?.join('\n'));
+
+    const outputs = result.outputs || [];
+    assert.deepEqual(outputs.filter(output => !output.chunk).map(output => [output.path, output.entryPoint]).sort(), [
+      [join(outDir, 'a.js'), join(srcDir, 'a.ts')],
+      [join(outDir, 'b.js'), join(srcDir, 'b.ts')],
+    ]);
+
+    const chunks = outputs.filter(output => output.chunk);
+    assert.equal(chunks.length, 1);
+    assert.equal(chunks[0].entryPoint, undefined);
+    assert.equal(result.size, outputs.reduce((total, output) => total + output.size, 0));
+  });
+
+  it('gives chunks the ESM compatibility banner', async () => {
+    writeFileSync(join(outDir, 'package.json'), JSON.stringify({ type: 'module' }));
+    const { a } = await import(pathToFileURL(join(outDir, 'a.js')).href) as { a: () => string };
+    assert.equal(a(), outDir);
+  });
+
+  it('removes the chunks a rebuild no longer writes', async () => {
+    const chunkFiles = () => readdirSync(outDir).filter(file => file.startsWith('chunk-'));
+    const [previous] = chunkFiles();
+
+    writeFileSync(join(srcDir, 'shared.ts'), 'export const dir = () => `${__dirname}`;');
+    const result = await bundler.rebuild();
+    assert.equal(result.success, true, result.errors?.join('\n'));
+
+    const current = chunkFiles();
+    assert.equal(current.length, 1);
+    assert.notEqual(current[0], previous);
+    assert.equal(existsSync(join(outDir, previous)), false);
+  });
+
+  it('requires ESM output', async () => {
+    const result = await bundle({ ...config, output: join(root, 'cjs'), format: 'cjs' });
+    assert.equal(result.success, false);
+    assert.deepEqual(result.errors, ["Code splitting requires format: 'esm', got 'cjs'"]);
+  });
+});
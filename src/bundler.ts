@@ -1,17 +1,36 @@
-import { build, type BuildOptions } from 'esbuild';
-import { existsSync, readFileSync, statSync } from 'fs';
-import { dirname, join, resolve } from 'path';
+import { build, context, type BuildContext, type BuildOptions, type BuildResult } from 'esbuild';
+import { existsSync, readFileSync, rmSync, statSync } from 'fs';
+import { basename, dirname, extname, join, resolve } from 'path';
 import { AssetHandler } from './asset-handler.js';
-import { generateBinaryInstructions, handleBinaryPackages } from './binary-handler.js';
+import { AssetManifest, writeAssetManifest } from './asset-manifest.js';
+import { generateBinaryInstructions, handleBinaryPackages, parseBinaryTarget } from './binary-handler.js';
+import { getEnvDefines, loadEnv } from './env.js';
+import { writeDeployPackage } from './package-manifest.js';
 import { getAllPlugins } from './plugins.js';
+import { getStubbedDependencies } from './plugins/optional-dependencies.js';
+import { createStandaloneOutput, removeGeneratedNodeModules } from './standalone.js';
 import { NODE_BUILTINS } from './presets.js';
-import type { BackbundleConfig, BundleResult } from './types.js';
+import { createRecipeEnvBanner } from './recipes.js';
+import type { BackbundleConfig, BundleOutput, BundleResult } from './types.js';
 
 /**
  * Main bundler class for Backbundle
  */
 export class Bundler {
   private config: BackbundleConfig;
+  private packageExternal: string[] = [];
+  /** Files copied next to the bundle, by package handling and by plugins during the build */
+  private manifest = new AssetManifest();
+  /** `process.env.X` defines loaded from .env files and the process environment */
+  private envDefines: Record<string, string> = {};
+  /** Environment variables pointing package recipes at their copied files, relative to the output directory */
+  private packageEnv: Record<string, string> = {};
+  /** Native packages copied by the binary copy strategy, traced into standalone output */
+  private copiedPackages: string[] = [];
+  /** Chunks written by the previous build, removed when a rebuild no longer produces them */
+  private chunks = new Set<string>();
+  private context: BuildContext | null = null;
+  private contextStale = false;
 
   constructor(config: BackbundleConfig) {
     this.config = this.normalizeConfig(config);
@@ -39,7 +58,7 @@ export class Bundler {
    */
   private buildEsbuildOptions(): BuildOptions {
     const { config } = this;
-    const external = [...(config.external || [])];
+    const external = [...(config.external || []), ...this.packageExternal];
 
     // Always exclude Node.js built-in modules
     external.push(...NODE_BUILTINS);
@@ -49,12 +68,20 @@ export class Bundler {
       // This will be handled by esbuild's packages option
     }
 
+    if (config.splitting && config.format !== 'esm') {
+      throw new Error(`Code splitting requires format: 'esm', got '${config.format}'`);
+    }
+
+    // Without splitting, every entry point is bundled with its own copy of the modules the entries share
+    if (typeof config.entry !== 'string' && Object.keys(config.entry).length > 1 && !config.splitting) {
+      console.warn("⚠️  Each entry point includes its own copy of the modules they share, enable splitting with format 'esm' to share them as chunks");
+    }
+
     // Get all plugins (including custom ones)
-    const allPlugins = getAllPlugins(config);
+    const allPlugins = getAllPlugins(config, this.manifest);
 
     const esbuildOptions: BuildOptions = {
-      entryPoints: [config.entry],
-      outfile: config.output,
+      ...getEntryOptions(this.config),
       bundle: true,
       platform: 'node',
       format: config.format,
@@ -66,6 +93,12 @@ export class Bundler {
       treeShaking: config.treeShaking,
       logLevel: 'warning',
       metafile: true,
+      // Chunks sit next to the entry points, so __dirname and relative requires in the banner and
+      // rewritten loaders resolve the same in every chunk
+      ...(config.splitting && {
+        splitting: true,
+        chunkNames: '[name]-[hash]',
+      }),
       // For ESM format, ensure proper handling of CommonJS packages
       ...(config.format === 'esm' && {
         mainFields: ['module', 'main']
@@ -86,14 +119,203 @@ export class Bundler {
       esbuildOptions.alias = config.alias;
     }
 
-    // Handle defines
-    if (config.define) {
-      esbuildOptions.define = config.define;
+    // Handle defines, explicit defines take precedence over environment variables
+    const define = { ...this.envDefines, ...config.define };
+    if (Object.keys(define).length > 0) {
+      esbuildOptions.define = define;
+    }
+
+    // Set the environment variables of package recipes before any bundled code runs
+    const envBanner = createRecipeEnvBanner(this.packageEnv, config.format);
+    if (envBanner) {
+      esbuildOptions.banner = {
+        ...esbuildOptions.banner,
+        js: [esbuildOptions.banner?.js, envBanner].filter(Boolean).join('\n'),
+      };
     }
 
     return esbuildOptions;
   }
 
+  /**
+   * Handle binary, WASM and asset packages and collect the externals they require
+   */
+  private handlePackages(): void {
+    const nodeModulesPath = join(process.cwd(), 'node_modules');
+    const outputDir = getOutputDir(this.config);
+
+    let binaryExternal: string[] = [];
+    let assetExternal: string[] = [];
+    let packageEnv: Record<string, string> = {};
+    let copiedPackages: string[] = [];
+    const copiedFiles: string[] = [];
+    this.manifest.clear();
+
+    // Packages copied by earlier builds may no longer be needed
+    removeGeneratedNodeModules(outputDir);
+
+    if (existsSync(nodeModulesPath)) {
+      // Handle binary packages
+      if (this.config.binaryPackages) {
+        const binaryResult = handleBinaryPackages(
+          this.config,
+          nodeModulesPath,
+          outputDir,
+          this.manifest
+        );
+        binaryExternal = binaryResult.external;
+        packageEnv = binaryResult.env;
+        copiedPackages = binaryResult.copiedPackages;
+        copiedFiles.push(...binaryResult.copiedFiles);
+      }
+
+      // Handle WASM and asset packages
+      const assetHandler = new AssetHandler(this.config, outputDir, this.manifest);
+      assetExternal = assetHandler.getAllExternals();
+    }
+
+    const external = [...binaryExternal, ...assetExternal];
+    if (external.join('\0') !== this.packageExternal.join('\0') || JSON.stringify(packageEnv) !== JSON.stringify(this.packageEnv)) {
+      // Externals and banners are fixed when an esbuild context is created
+      this.contextStale = true;
+    }
+    this.packageExternal = external;
+    this.packageEnv = packageEnv;
+    this.copiedPackages = copiedPackages;
+
+    // Generate binary instructions if files were copied
+    if (copiedFiles.length > 0) {
+      const instructions = generateBinaryInstructions(
+        copiedFiles,
+        this.config.binaryPackages?.strategy
+      );
+      console.log('\n' + instructions);
+    }
+  }
+
+  /**
+   * Load the environment variables to inline
+   */
+  private loadEnvDefines(): void {
+    const defines = getEnvDefines(loadEnv(this.config), this.config.envPrefix);
+    if (JSON.stringify(defines) !== JSON.stringify(this.envDefines)) {
+      // Defines are fixed when an esbuild context is created
+      this.contextStale = true;
+    }
+    this.envDefines = defines;
+  }
+
+  /**
+   * Get the names of the environment variables inlined into the bundle
+   */
+  private getInlinedEnv(): string[] | undefined {
+    const names = Object.keys(this.envDefines)
+      .filter(key => this.config.define?.[key] === undefined)
+      .map(key => key.slice('process.env.'.length));
+    return names.length > 0 ? names : undefined;
+  }
+
+  /**
+   * Convert an esbuild result into a bundle result
+   */
+  private createResult(result: BuildResult, startTime: number): BundleResult {
+    // Get output file sizes
+    const outputs: BundleOutput[] = [];
+    // Without a metafile only a single output file is known, multiple entry points have no fallback
+    const outputPaths = result.metafile
+      ? Object.keys(result.metafile.outputs).filter(output => !output.endsWith('.map'))
+      : isMultiEntry(this.config) ? [] : [this.config.output];
+
+    // Outputs imported by other outputs are chunks, dynamically imported modules get an entryPoint too
+    const imported = new Set(Object.values(result.metafile?.outputs || {}).flatMap(output => output.imports.map(item => item.path)));
+
+    for (const outputPath of outputPaths) {
+      try {
+        const fullPath = resolve(outputPath);
+        const chunk = this.config.splitting && imported.has(outputPath);
+        const entryPoint = !chunk && result.metafile?.outputs[outputPath].entryPoint;
+        outputs.push({
+          path: fullPath,
+          size: statSync(fullPath).size,
+          ...(chunk && { chunk }),
+          ...(entryPoint && { entryPoint: resolve(entryPoint) }),
+        });
+      } catch {
+        // File might not exist if there were errors
+      }
+    }
+
+    // Chunk names are content hashes, so rebuilds leave the previous chunks behind
+    if (result.errors.length === 0) {
+      const chunks = new Set(outputs.filter(output => output.chunk).map(output => output.path));
+      for (const chunk of this.chunks) {
+        if (!chunks.has(chunk)) {
+          rmSync(chunk, { force: true });
+          rmSync(`${chunk}.map`, { force: true });
+        }
+      }
+      this.chunks = chunks;
+    }
+
+    // Write the deployment package.json for externalized packages
+    let externalDependencies: Record<string, string> | undefined;
+    if (this.config.packageJson && result.metafile && result.errors.length === 0) {
+      externalDependencies = writeDeployPackage(this.config, result.metafile, getOutputDir(this.config)).dependencies;
+    }
+
+    // Copy the node_modules tree needed by externalized packages
+    let standalone: BundleResult['standalone'];
+    if (this.config.standalone && result.metafile && result.errors.length === 0) {
+      const binaryTarget = this.config.binaryPackages?.target;
+      const { packages, files } = createStandaloneOutput(
+        result.metafile,
+        getOutputDir(this.config),
+        process.cwd(),
+        binaryTarget ? parseBinaryTarget(binaryTarget) : undefined,
+        this.manifest,
+        this.copiedPackages
+      );
+      standalone = { packages, files };
+    }
+
+    // Record where copied package files ended up for backbundle/runtime
+    if (result.errors.length === 0) {
+      writeAssetManifest(getOutputDir(this.config), this.manifest);
+    }
+
+    return {
+      success: result.errors.length === 0,
+      outputPath: this.config.output,
+      size: outputs.reduce((total, output) => total + output.size, 0),
+      outputs,
+      externalDependencies,
+      env: this.getInlinedEnv(),
+      stubbedDependencies: result.metafile ? getStubbedDependencies(result.metafile.inputs) : undefined,
+      standalone,
+      time: Date.now() - startTime,
+      errors: result.errors.map(error => error.text),
+      warnings: result.warnings.map(warning => warning.text),
+      metafile: result.metafile,
+    };
+  }
+
+  /**
+   * Create a failed bundle result from a thrown error
+   */
+  private createErrorResult(error: unknown, startTime: number): BundleResult {
+    const errors = isBuildFailure(error)
+      ? error.errors.map(message => message.text)
+      : [error instanceof Error ? error.message : String(error)];
+
+    return {
+      success: false,
+      outputPath: this.config.output,
+      size: 0,
+      time: Date.now() - startTime,
+      errors,
+    };
+  }
+
   /**
    * Bundle the application
    */
@@ -102,79 +324,55 @@ export class Bundler {
 
     try {
       // Handle binary packages and assets before building
-      const nodeModulesPath = join(process.cwd(), 'node_modules');
-      const outputDir = dirname(this.config.output);
-
-      let binaryExternal: string[] = [];
-      let assetExternal: string[] = [];
-      let copiedFiles: string[] = [];
-
-      if (existsSync(nodeModulesPath)) {
-        // Handle binary packages
-        if (this.config.binaryPackages) {
-          const binaryResult = handleBinaryPackages(
-            this.config,
-            nodeModulesPath,
-            outputDir
-          );
-          binaryExternal = binaryResult.external;
-          copiedFiles.push(...binaryResult.copiedFiles);
-        }
-
-        // Handle WASM and asset packages
-        const assetHandler = new AssetHandler(this.config, outputDir);
-        assetExternal = assetHandler.getAllExternals();
-      }
-
-      // Merge all externals with existing external packages
-      const originalExternal = [...(this.config.external || [])];
-      this.config.external = [...originalExternal, ...binaryExternal, ...assetExternal];
+      this.handlePackages();
+      this.loadEnvDefines();
 
       const esbuildOptions = this.buildEsbuildOptions();
       const result = await build(esbuildOptions);
 
-      // Generate binary instructions if files were copied
-      if (copiedFiles.length > 0) {
-        const instructions = generateBinaryInstructions(
-          copiedFiles,
-          this.config.binaryPackages?.strategy
-        );
-        console.log('\n' + instructions);
-      }
+      return this.createResult(result, startTime);
+    } catch (error) {
+      return this.createErrorResult(error, startTime);
+    }
+  }
 
-      const endTime = Date.now();
-      const time = endTime - startTime;
+  /**
+   * Rebuild the application incrementally, keeping an esbuild context alive between calls
+   */
+  async rebuild(options: { packages?: boolean } = {}): Promise<BundleResult> {
+    const startTime = Date.now();
 
-      // Get output file size
-      let size = 0;
-      try {
-        const stats = statSync(this.config.output);
-        size = stats.size;
-      } catch {
-        // File might not exist if there were errors
+    try {
+      // Binary, WASM and asset handling only runs on the first build or when requested
+      if (!this.context || options.packages) {
+        this.handlePackages();
       }
+      this.loadEnvDefines();
 
-      const bundleResult: BundleResult = {
-        success: result.errors.length === 0,
-        outputPath: this.config.output,
-        size,
-        time,
-        errors: result.errors.map(error => error.text),
-        warnings: result.warnings.map(warning => warning.text),
-      };
+      if (this.context && this.contextStale) {
+        await this.context.dispose();
+        this.context = null;
+      }
 
-      return bundleResult;
+      if (!this.context) {
+        this.context = await context(this.buildEsbuildOptions());
+        this.contextStale = false;
+      }
+
+      const result = await this.context.rebuild();
+      return this.createResult(result, startTime);
     } catch (error) {
-      const endTime = Date.now();
-      const time = endTime - startTime;
-
-      return {
-        success: false,
-        outputPath: this.config.output,
-        size: 0,
-        time,
-        errors: [error instanceof Error ? error.message : String(error)],
-      };
+      return this.createErrorResult(error, startTime);
+    }
+  }
+
+  /**
+   * Release the esbuild context created by rebuild()
+   */
+  async dispose(): Promise<void> {
+    if (this.context) {
+      await this.context.dispose();
+      this.context = null;
     }
   }
 
@@ -190,7 +388,53 @@ export class Bundler {
    */
   updateConfig(updates: Partial<BackbundleConfig>): void {
     this.config = this.normalizeConfig({ ...this.config, ...updates });
+    this.contextStale = true;
+  }
+}
+
+/**
+ * Check whether the configuration builds multiple entry points into an output directory
+ */
+export function isMultiEntry(config: Pick<BackbundleConfig, 'entry'>): boolean {
+  return typeof config.entry !== 'string';
+}
+
+/**
+ * Get the directory the bundle is written to
+ */
+export function getOutputDir(config: Pick<BackbundleConfig, 'entry' | 'output'>): string {
+  return isMultiEntry(config) ? config.output : dirname(config.output);
+}
+
+/**
+ * Get the esbuild entry point and output options.
+ * Multiple entry points, and split single entries, are written into an output directory.
+ */
+export function getEntryOptions(config: Pick<BackbundleConfig, 'entry' | 'output' | 'splitting'>): BuildOptions {
+  const { entry, output, splitting } = config;
+
+  if (typeof entry !== 'string') {
+    return { entryPoints: entry, outdir: output };
   }
+
+  if (!splitting) {
+    return { entryPoints: [entry], outfile: output };
+  }
+
+  // Name the entry after the output file so it still lands at `output`
+  const extension = extname(output);
+  return {
+    entryPoints: { [basename(output, extension)]: entry },
+    outdir: dirname(output),
+    ...(extension && extension !== '.js' && { outExtension: { '.js': extension } }),
+  };
+}
+
+/**
+ * Check whether an error was thrown by esbuild with build messages attached
+ */
+function isBuildFailure(error: unknown): error is { errors: { text: string }[] } {
+  return typeof error === 'object' && error !== null && 'errors' in error && Array.isArray(error.errors);
 }
 
 /**
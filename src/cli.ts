@@ -2,33 +2,48 @@
 
 import chalk from 'chalk';
 import { Command } from 'commander';
-import { existsSync, mkdirSync, readFileSync } from 'fs';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
 import ora from 'ora';
-import { basename, dirname, extname, resolve } from 'path';
+import { basename, dirname, extname, relative, resolve } from 'path';
+import { createInterface } from 'readline/promises';
 import { fileURLToPath } from 'url';
-import { bundle, detectEntryPoint, detectFramework } from './bundler.js';
-import { loadConfig, mergeConfig } from './config.js';
-import { getPreset, listPresets } from './presets.js';
-import type { BackbundleConfig } from './types.js';
+import { analyzeMetafile, type SizeEntry } from './analyzer.js';
+import { handleBinaryPackages } from './binary-handler.js';
+import { bundle, detectEntryPoint, detectFramework, getOutputDir, isMultiEntry } from './bundler.js';
+import { suggestClosest } from './config-schema.js';
+import { deepMergeConfig, findConfigFile, loadConfigTargets, mergeConfig, parseEntryPoints, resolvePresetConfig } from './config.js';
+import { DevServer } from './dev-server.js';
+import { generateDockerfile, generateDockerignore, getBaseImage, getNodeVersion, getTargetLibc, type DockerOptions } from './docker.js';
+import { addBuildScript, BUILD_SCRIPT, detectProject, generateConfigFile, readPackageInfo } from './init.js';
+import { FRAMEWORK_PRESETS, listPresets, loadPresetPackages } from './presets.js';
+import { writeTreemapReport } from './treemap.js';
+import type { BackbundleConfig, BundleResult, ConfigEnv, UserConfig } from './types.js';
+import { watchBundle, type WatchChange } from './watcher.js';
 
 interface CLIOptions {
   config?: string;
-  input?: string;
+  input?: string[];
   output?: string;
   preset?: string;
+  mode?: string;
+  name?: string;
   format?: 'cjs' | 'esm' | 'iife';
+  splitting?: boolean;
   target?: string;
   minify?: boolean;
   sourcemap?: boolean | 'inline' | 'external' | 'both';
   external?: string[];
   excludePackages?: boolean;
+  workspacePackages?: boolean;
   keepNames?: boolean;
+  decoratorMetadata?: boolean;
   treeShaking?: boolean;
   define?: string[];
   alias?: string[];
   binaryStrategy?: 'copy' | 'external' | 'ignore';
   binaryPackages?: string[];
   binaryOutput?: string;
+  binaryTarget?: string;
   wasmStrategy?: 'copy' | 'external' | 'ignore' | 'inline';
   wasmPackages?: string[];
   wasmOutput?: string;
@@ -36,8 +51,31 @@ interface CLIOptions {
   assetPackages?: string[];
   assetOutput?: string;
   assetExtensions?: string[];
+  packageJson?: boolean;
+  standalone?: boolean;
+  relocateFiles?: boolean;
+  optionalDependencies?: boolean;
+  envFile?: string[];
   watch?: boolean;
   analyze?: boolean;
+  analyzeHtml?: boolean;
+}
+
+/**
+ * Bundle analysis output: the text report, or the text report and an HTML treemap
+ */
+type AnalysisFormat = 'text' | 'html';
+
+interface DevOptions extends CLIOptions {
+  inspect?: boolean | string;
+  inspectBrk?: boolean | string;
+  gracePeriod?: string;
+}
+
+interface DockerCLIOptions extends CLIOptions {
+  port?: string;
+  dir: string;
+  force?: boolean;
 }
 
 function isPackageJson(obj: unknown): obj is { version: string } {
@@ -62,95 +100,313 @@ program
   .description('A specialized bundler for Node.js backend projects')
   .version(packageJson.version);
 
+/**
+ * Collect the values of a repeatable option
+ */
+function collectValues(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Add the bundling options shared by the build and dev commands
+ */
+function addBundleOptions(command: Command): Command {
+  return command
+    .option('-c, --config <file>', 'Path to configuration file')
+    .option('-i, --input <file>', 'Entry point file, optionally named as name=file (repeat for multiple entry points)', collectValues)
+    .option('-o, --output <path>', 'Output file path, or output directory for multiple entry points')
+    .option('-p, --preset <name>', 'Use a framework preset (nestjs, express, koa, fastify, generic)')
+    .option('-m, --mode <mode>', 'Mode passed to function configs and used as NODE_ENV (default: production, development for dev)')
+    .option('--format <format>', 'Output format (cjs, esm, iife)', 'cjs')
+    .option('--splitting', 'Split modules loaded with import() into chunks (esm format only)')
+    .option('--target <target>', 'Target environment (e.g., node18)', 'node18')
+    .option('--no-minify', 'Disable code minification')
+    .option('--sourcemap [type]', 'Generate source maps (true, inline, external, both)')
+    .option('--external <modules...>', 'External modules to exclude from bundle')
+    .option('--exclude-packages', 'Exclude all npm packages from bundle')
+    .option('--no-workspace-packages', 'Do not bundle workspace packages from source')
+    .option('--keep-names', 'Preserve function and class names')
+    .option('--decorator-metadata', "Emit decorator metadata for files with decorators using the project's TypeScript")
+    .option('--no-tree-shaking', 'Disable tree shaking')
+    .option('--define <key=value...>', 'Define global constants')
+    .option('--env-file <files...>', 'Load .env files, inlining variables with the env prefix (default: .env)')
+    .option('--alias <key=value...>', 'Define import aliases')
+    .option('--binary-strategy <strategy>', 'Binary packages handling strategy (copy, external, ignore), overrides the config file and preset')
+    .option('--binary-packages <packages...>', 'Explicitly specify binary packages')
+    .option('--binary-output <dir>', 'Output directory for binary files')
+    .option('--binary-target <target>', 'Deploy target of copied prebuilds (e.g., linux-x64-glibc, linux-arm64-musl)')
+    .option('--wasm-strategy <strategy>', 'WASM packages handling strategy (copy, external, ignore, inline), overrides the config file and preset')
+    .option('--wasm-packages <packages...>', 'Explicitly specify WASM packages')
+    .option('--wasm-output <dir>', 'Output directory for WASM files')
+    .option('--asset-strategy <strategy>', 'Asset packages handling strategy (copy, external, ignore, inline), overrides the config file and preset')
+    .option('--asset-packages <packages...>', 'Explicitly specify asset packages')
+    .option('--asset-output <dir>', 'Output directory for asset files')
+    .option('--asset-extensions <extensions...>', 'File extensions to treat as assets (default: .json .txt .xml .yaml .yml)')
+    .option('--package-json', 'Write a package.json for external dependencies next to the output')
+    .option('--standalone', 'Copy the node_modules files needed by external packages into the output directory')
+    .option('--relocate-files', 'Copy files that bundled packages read relative to their modules into the output directory')
+    .option('--optional-dependencies', 'Stub optional dependencies that cannot be resolved instead of failing the build');
+}
+
 /**
  * Main build command
  */
-program
-  .command('build')
-  .description('Bundle a Node.js backend application')
-  .option('-c, --config <file>', 'Path to configuration file')
-  .option('-i, --input <file>', 'Entry point file')
-  .option('-o, --output <file>', 'Output file path')
-  .option('-p, --preset <name>', 'Use a framework preset (nestjs, express, koa, fastify, generic)')
-  .option('--format <format>', 'Output format (cjs, esm, iife)', 'cjs')
-  .option('--target <target>', 'Target environment (e.g., node18)', 'node18')
-  .option('--no-minify', 'Disable code minification')
-  .option('--sourcemap [type]', 'Generate source maps (true, inline, external, both)')
-  .option('--external <modules...>', 'External modules to exclude from bundle')
-  .option('--exclude-packages', 'Exclude all npm packages from bundle')
-  .option('--keep-names', 'Preserve function and class names')
-  .option('--no-tree-shaking', 'Disable tree shaking')
-  .option('--define <key=value...>', 'Define global constants')
-  .option('--alias <key=value...>', 'Define import aliases')
-  .option('--binary-strategy <strategy>', 'Binary packages handling strategy (copy, external, ignore)', 'external')
-  .option('--binary-packages <packages...>', 'Explicitly specify binary packages')
-  .option('--binary-output <dir>', 'Output directory for binary files')
-  .option('--wasm-strategy <strategy>', 'WASM packages handling strategy (copy, external, ignore)', 'copy')
-  .option('--wasm-packages <packages...>', 'Explicitly specify WASM packages')
-  .option('--wasm-output <dir>', 'Output directory for WASM files')
-  .option('--asset-strategy <strategy>', 'Asset packages handling strategy (copy, external, ignore)', 'copy')
-  .option('--asset-packages <packages...>', 'Explicitly specify asset packages')
-  .option('--asset-output <dir>', 'Output directory for asset files')
-  .option('--asset-extensions <extensions...>', 'File extensions to treat as assets', ['.json', '.txt', '.xml', '.yaml', '.yml'])
+addBundleOptions(
+  program
+    .command('build')
+    .description('Bundle a Node.js backend application')
+)
   .option('--watch', 'Watch for file changes and rebuild')
   .option('--analyze', 'Show bundle analysis')
-  .action(async (options: CLIOptions) => {
+  .option('--analyze-html', 'Show bundle analysis and also write an HTML treemap report')
+  .argument('[targets...]', 'Names of the build targets to build, defaults to all targets in the config file')
+  .action(async (targets: string[], options: CLIOptions) => {
     try {
-      const config = await buildConfig(options);
-
       if (options.watch) {
-        console.log(chalk.blue('🔍 Starting watch mode...'));
-        // Watch mode would be implemented here
-        console.log(chalk.yellow('⚠️  Watch mode is not implemented yet'));
+        await runWatch(options, targets);
         return;
       }
 
-      await runBuild(config, options.analyze);
+      const configs = await buildConfigs(options, 'build', targets);
+      if (configs.length === 1) {
+        await runBuild(configs[0], getAnalysisFormat(options));
+      } else {
+        await runBuilds(configs, getAnalysisFormat(options));
+      }
     } catch (error) {
       console.error(chalk.red('❌ Build failed:'), error instanceof Error ? error.message : String(error));
       process.exit(1);
     }
   });
 
+/**
+ * Development command
+ */
+addBundleOptions(
+  program
+    .command('dev')
+    .description('Bundle with source maps, run the output and restart it on every rebuild')
+)
+  .argument('[args...]', 'Arguments passed to the application')
+  .option('--name <target>', 'Build target to run when the config file defines several')
+  .option('--inspect [host:port]', 'Start the application with the Node.js inspector')
+  .option('--inspect-brk [host:port]', 'Start the application with the Node.js inspector and break on start')
+  .option('--grace-period <ms>', 'Time to wait for the application to exit after SIGTERM', '5000')
+  .action(async (args: string[], options: DevOptions) => {
+    try {
+      await runDev(options, args);
+    } catch (error) {
+      console.error(chalk.red('❌ Dev server failed:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Docker command
+ */
+addBundleOptions(
+  program
+    .command('docker')
+    .description('Generate a multi-stage Dockerfile and .dockerignore for the bundle')
+)
+  .option('--name <target>', 'Build target to deploy when the config file defines several')
+  .option('--port <port>', 'Port to expose (defaults to the preset port)')
+  .option('--dir <dir>', 'Directory to write the Docker files to', '.')
+  .option('--force', 'Overwrite existing Docker files')
+  .action(async (options: DockerCLIOptions) => {
+    try {
+      await runDocker(options);
+    } catch (error) {
+      console.error(chalk.red('❌ Docker generation failed:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Init command
+ */
+program
+  .command('init')
+  .description('Detect the project setup and write a commented backbundle config file')
+  .option('--force', 'Overwrite an existing config file written by init')
+  .option('-y, --yes', 'Add the build script to package.json without asking')
+  .action(async (options: { force?: boolean; yes?: boolean }) => {
+    try {
+      await runInit(options);
+    } catch (error) {
+      console.error(chalk.red('❌ Init failed:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+/**
+ * Validate configuration command
+ */
+program
+  .command('validate')
+  .description('Check the configuration file without building')
+  .option('-c, --config <file>', 'Path to configuration file')
+  .option('-m, --mode <mode>', 'Mode passed to function configs', 'production')
+  .action(async (options: { config?: string; mode: string }) => {
+    try {
+      const configFile = findConfigFile(options.config);
+      if (!configFile) {
+        throw new Error('No configuration file found');
+      }
+
+      const targets = await loadConfigTargets(configFile, process.cwd(), { mode: options.mode, command: 'build', env: process.env });
+      const count = targets && targets.length > 1 ? chalk.gray(` (${targets.length} build targets)`) : '';
+      console.log(chalk.green('✅ Configuration is valid:'), relative(process.cwd(), configFile) + count);
+    } catch (error) {
+      console.error(chalk.red('❌ Validation failed:'), error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 /**
  * List presets command
  */
 program
   .command('presets')
-  .description('List available framework presets')
-  .action(() => {
+  .description('List available framework presets, including preset packages and presets defined in the config file')
+  .option('-c, --config <file>', 'Path to configuration file')
+  .action(async (options: { config?: string }) => {
+    try {
+      await loadPresetPackages();
+      if (findConfigFile(options.config)) {
+        // Registers the presets defined in the config file
+        await loadConfigTargets(options.config);
+      }
+    } catch (error) {
+      console.warn(chalk.yellow('⚠️  Could not load all presets:'), error instanceof Error ? error.message : String(error));
+    }
+
     console.log(chalk.blue('\n📦 Available Framework Presets:\n'));
 
     const presets = listPresets();
-    presets.forEach(preset => {
+    const builtin = presets.filter(preset => FRAMEWORK_PRESETS.includes(preset));
+    const custom = presets.filter(preset => !FRAMEWORK_PRESETS.includes(preset));
+
+    builtin.forEach(preset => {
       console.log(chalk.green(`  ${preset.name}`));
       console.log(chalk.gray(`    ${preset.description}`));
       console.log();
     });
+
+    if (custom.length > 0) {
+      console.log(chalk.blue('🧩 Third-party Presets:\n'));
+      custom.forEach(preset => {
+        console.log(chalk.green(`  ${preset.name}`), chalk.gray(`(${preset.package || 'config file'})`));
+        console.log(chalk.gray(`    ${preset.description}`));
+        console.log();
+      });
+    }
+  });
+
+/**
+ * Get the context function configs are called with
+ */
+function getConfigEnv(options: CLIOptions, command: ConfigEnv['command']): ConfigEnv {
+  return {
+    mode: options.mode || (command === 'dev' ? 'development' : 'production'),
+    command,
+    env: process.env,
+  };
+}
+
+/**
+ * Select build targets by name, keeping all of them when no names are given
+ */
+function selectTargets(targets: UserConfig[], names: string[]): UserConfig[] {
+  if (names.length === 0) {
+    return targets;
+  }
+
+  const available = targets.flatMap(target => target.name ? [target.name] : []);
+  return names.map(name => {
+    const target = targets.find(candidate => candidate.name === name);
+    if (!target) {
+      const suggestion = suggestClosest(name, available);
+      throw new Error(
+        `Unknown build target "${name}"${suggestion ? `, did you mean "${suggestion}"?` : ''}` +
+        ` Available targets: ${available.length > 0 ? available.join(', ') : 'none'}`
+      );
+    }
+    return target;
   });
+}
+
+/**
+ * Get a display name for a build target
+ */
+function getTargetLabel(config: BackbundleConfig): string {
+  return config.name || relative(process.cwd(), config.output) || config.output;
+}
 
 /**
- * Build configuration from CLI options and config file
+ * Build the configurations of the selected build targets from CLI options and config file
  */
-async function buildConfig(options: CLIOptions): Promise<BackbundleConfig> {
+async function buildConfigs(options: CLIOptions, command: ConfigEnv['command'], names: string[] = []): Promise<BackbundleConfig[]> {
+  const configEnv = getConfigEnv(options, command);
+
   // Load configuration file first
-  const fileConfig = await loadConfig(options.config);
+  const targets = await loadConfigTargets(options.config, process.cwd(), configEnv);
+  if (!targets && names.length > 0) {
+    throw new Error(`No configuration file found to select build targets from: ${names.join(', ')}`);
+  }
+
+  const selected = targets ? selectTargets(targets, names) : [null];
+  if (selected.length > 1 && (options.input || options.output)) {
+    throw new Error('--input and --output cannot be used with multiple build targets, select a single target by name');
+  }
+
+  const configs: BackbundleConfig[] = [];
+  for (const fileConfig of selected) {
+    configs.push(await resolveBuildConfig(options, configEnv, fileConfig));
+  }
+  return configs;
+}
+
+/**
+ * Build the configuration of a single build target from CLI options and config file
+ */
+async function buildConfig(options: CLIOptions, command: ConfigEnv['command']): Promise<BackbundleConfig> {
+  const configs = await buildConfigs(options, command, options.name ? [options.name] : []);
+
+  if (configs.length > 1) {
+    throw new Error(`The configuration defines multiple build targets (${configs.map(getTargetLabel).join(', ')}), select one with --name`);
+  }
+
+  return configs[0];
+}
 
+/**
+ * Build configuration from CLI options and the config file of a build target
+ */
+async function resolveBuildConfig(options: CLIOptions, configEnv: ConfigEnv, fileConfig: UserConfig | null): Promise<BackbundleConfig> {
   // Build CLI-based config
   const cliConfig: Partial<BackbundleConfig> = {};
 
   // Only set CLI values if they were explicitly provided
-  if (options.input) cliConfig.entry = resolve(options.input);
+  if (options.input) cliConfig.entry = parseEntryPoints(options.input);
   if (options.output) cliConfig.output = resolve(options.output);
   if (options.format !== 'cjs') cliConfig.format = options.format; // Only if not default
+  if (options.splitting) cliConfig.splitting = true;
   if (options.target !== 'node18') cliConfig.target = options.target; // Only if not default
   if (options.minify === false) cliConfig.minify = false; // Only if explicitly disabled
   if (options.sourcemap) cliConfig.sourcemap = options.sourcemap;
   if (options.keepNames) cliConfig.keepNames = true;
+  if (options.decoratorMetadata) cliConfig.decoratorMetadata = true;
   if (options.treeShaking === false) cliConfig.treeShaking = false; // Only if explicitly disabled
   if (options.excludePackages) cliConfig.excludePackages = true;
+  if (options.workspacePackages === false) cliConfig.workspacePackages = false; // Only if explicitly disabled
   if (options.preset) cliConfig.preset = options.preset;
   if (options.external) cliConfig.external = options.external;
+  if (options.packageJson) cliConfig.packageJson = true;
+  if (options.standalone) cliConfig.standalone = true;
+  if (options.relocateFiles) cliConfig.relocateFiles = true;
+  if (options.optionalDependencies) cliConfig.optionalDependencies = true;
+  if (options.envFile) cliConfig.envFile = options.envFile;
 
   // Merge file config with CLI config (CLI takes precedence)
   let config = mergeConfig(fileConfig, cliConfig);
@@ -184,23 +440,27 @@ async function buildConfig(options: CLIOptions): Promise<BackbundleConfig> {
   // Generate output filename if not provided
   let output = config.output;
   if (!output) {
-    const inputBasename = basename(config.entry!, extname(config.entry!));
-    output = resolve(process.cwd(), 'dist', `${inputBasename}.js`);
+    if (typeof config.entry === 'string') {
+      const inputBasename = basename(config.entry, extname(config.entry));
+      output = resolve(process.cwd(), 'dist', `${inputBasename}.js`);
+    } else {
+      output = resolve(process.cwd(), 'dist');
+    }
     config.output = output;
   }
 
   // Ensure output directory exists
-  const outputDir = dirname(config.output!);
+  const outputDir = getOutputDir({ entry, output });
   if (!existsSync(outputDir)) {
     mkdirSync(outputDir, { recursive: true });
   }
 
   // Apply preset configuration
   if (preset) {
-    const presetConfig = getPreset(preset);
+    const presetConfig = await resolvePresetConfig(preset, process.cwd(), configEnv);
     if (presetConfig) {
       // Merge preset with existing config, but don't override user settings
-      config = { ...presetConfig.config, ...config };
+      config = deepMergeConfig(presetConfig, config);
       console.log(chalk.blue('🎯 Using preset:'), chalk.cyan(preset));
     } else {
       console.warn(chalk.yellow('⚠️  Unknown preset:'), preset);
@@ -218,6 +478,13 @@ async function buildConfig(options: CLIOptions): Promise<BackbundleConfig> {
     });
   }
 
+  // Default NODE_ENV to the mode unless the config file or CLI defines it
+  const definesNodeEnv = fileConfig?.define?.['process.env.NODE_ENV'] !== undefined ||
+    options.define?.some(def => def.startsWith('process.env.NODE_ENV='));
+  if (!definesNodeEnv) {
+    config.define = { ...config.define, 'process.env.NODE_ENV': JSON.stringify(configEnv.mode) };
+  }
+
   // Handle CLI aliases
   if (options.alias) {
     config.alias = config.alias || {};
@@ -230,7 +497,7 @@ async function buildConfig(options: CLIOptions): Promise<BackbundleConfig> {
   }
 
   // Handle binary packages configuration
-  if (options.binaryStrategy || options.binaryPackages || options.binaryOutput) {
+  if (options.binaryStrategy || options.binaryPackages || options.binaryOutput || options.binaryTarget) {
     config.binaryPackages = config.binaryPackages || {};
 
     if (options.binaryStrategy) {
@@ -244,6 +511,10 @@ async function buildConfig(options: CLIOptions): Promise<BackbundleConfig> {
     if (options.binaryOutput) {
       config.binaryPackages.outputDir = options.binaryOutput;
     }
+
+    if (options.binaryTarget) {
+      config.binaryPackages.target = options.binaryTarget;
+    }
   }
 
   // Handle WASM packages configuration
@@ -289,19 +560,31 @@ async function buildConfig(options: CLIOptions): Promise<BackbundleConfig> {
     entry: config.entry!,
     output: config.output!,
     format: config.format || 'cjs',
+    splitting: config.splitting,
     target: config.target || 'node18',
     minify: config.minify !== false,
     sourcemap: config.sourcemap || false,
     keepNames: config.keepNames || false,
+    decoratorMetadata: config.decoratorMetadata,
     treeShaking: config.treeShaking !== false,
     excludePackages: config.excludePackages || false,
+    workspacePackages: config.workspacePackages,
     external: config.external || [],
     define: config.define || {},
     alias: config.alias || {},
     esbuildOptions: config.esbuildOptions || {},
     binaryPackages: config.binaryPackages,
     wasmPackages: config.wasmPackages,
-    assetPackages: config.assetPackages
+    assetPackages: config.assetPackages,
+    packageJson: config.packageJson,
+    standalone: config.standalone,
+    relocateFiles: config.relocateFiles,
+    optionalDependencies: config.optionalDependencies,
+    name: config.name,
+    mode: config.mode || configEnv.mode,
+    envFile: config.envFile,
+    envPrefix: config.envPrefix,
+    preset
   };
 
   return finalConfig;
@@ -310,7 +593,7 @@ async function buildConfig(options: CLIOptions): Promise<BackbundleConfig> {
 /**
  * Run the build process
  */
-async function runBuild(config: BackbundleConfig, analyze = false): Promise<void> {
+async function runBuild(config: BackbundleConfig, analyze: AnalysisFormat | null = null): Promise<void> {
   const spinner = ora('Building bundle...').start();
 
   try {
@@ -318,34 +601,14 @@ async function runBuild(config: BackbundleConfig, analyze = false): Promise<void
 
     if (result.success) {
       spinner.succeed(chalk.green('✅ Bundle created successfully!'));
-
-      console.log(chalk.blue('\n📊 Build Summary:'));
-      console.log(chalk.gray(`   Entry:  ${config.entry}`));
-      console.log(chalk.gray(`   Output: ${result.outputPath}`));
-      console.log(chalk.gray(`   Size:   ${formatBytes(result.size)}`));
-      console.log(chalk.gray(`   Time:   ${result.time}ms`));
-
-      if (result.warnings && result.warnings.length > 0) {
-        console.log(chalk.yellow('\n⚠️  Warnings:'));
-        result.warnings.forEach(warning => {
-          console.log(chalk.yellow(`   ${warning}`));
-        });
-      }
+      printBuildSummary(config, result);
 
       if (analyze) {
-        console.log(chalk.blue('\n📈 Bundle Analysis:'));
-        console.log(chalk.gray('   Analysis feature coming soon...'));
+        printBundleAnalysis(result, analyze);
       }
     } else {
       spinner.fail(chalk.red('❌ Build failed!'));
-
-      if (result.errors && result.errors.length > 0) {
-        console.log(chalk.red('\n🚨 Errors:'));
-        result.errors.forEach(error => {
-          console.log(chalk.red(`   ${error}`));
-        });
-      }
-
+      printBuildErrors(result);
       process.exit(1);
     }
   } catch (error) {
@@ -354,6 +617,452 @@ async function runBuild(config: BackbundleConfig, analyze = false): Promise<void
   }
 }
 
+/**
+ * Build several targets in parallel and print one summary
+ */
+async function runBuilds(configs: BackbundleConfig[], analyze: AnalysisFormat | null = null): Promise<void> {
+  const spinner = ora(`Building ${configs.length} targets...`).start();
+  const results = await Promise.all(configs.map(async config => bundle(config)));
+  const failed = results.filter(result => !result.success).length;
+
+  if (failed === 0) {
+    spinner.succeed(chalk.green(`✅ ${configs.length} bundles created successfully!`));
+  } else {
+    spinner.fail(chalk.red(`❌ ${failed} of ${configs.length} builds failed!`));
+  }
+
+  console.log(chalk.blue('\n📊 Build Summary:'));
+  const width = Math.max(...configs.map(config => getTargetLabel(config).length));
+  const pathWidth = Math.max(...results.map(result => relative(process.cwd(), result.outputPath).length));
+  configs.forEach((config, i) => {
+    const result = results[i];
+    const status = result.success ? chalk.green('✔') : chalk.red('✖');
+    const details = result.success ? `${formatBytes(result.size).padStart(10)}  ${result.time}ms` : 'failed';
+    console.log(`   ${status} ${getTargetLabel(config).padEnd(width)}  ${chalk.gray(`${relative(process.cwd(), result.outputPath).padEnd(pathWidth)}  ${details}`)}`);
+  });
+
+  configs.forEach((config, i) => {
+    const result = results[i];
+    if (result.env) {
+      console.log(chalk.blue(`\n🔐 Inlined environment variables (${getTargetLabel(config)}):`), chalk.gray(result.env.join(', ')));
+    }
+
+    if (result.stubbedDependencies && result.stubbedDependencies.length > 0) {
+      console.log(chalk.blue(`\n🧩 Stubbed optional dependencies (${getTargetLabel(config)}):`), chalk.gray(result.stubbedDependencies.join(', ')));
+    }
+
+    if (!result.success) {
+      console.log(chalk.red(`\n🎯 ${getTargetLabel(config)}:`));
+      printBuildErrors(result);
+    } else if (result.warnings && result.warnings.length > 0) {
+      console.log(chalk.yellow(`\n⚠️  Warnings (${getTargetLabel(config)}):`));
+      result.warnings.forEach(warning => {
+        console.log(chalk.yellow(`   ${warning}`));
+      });
+    }
+
+    if (analyze && result.success) {
+      console.log(chalk.blue(`\n🎯 ${getTargetLabel(config)}:`));
+      printBundleAnalysis(result, analyze);
+    }
+  });
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+/**
+ * Run the build in watch mode, rebuilding on every change
+ */
+async function runWatch(options: CLIOptions, names: string[] = []): Promise<void> {
+  console.log(chalk.blue('🔍 Starting watch mode...'));
+
+  // Each build target gets its own watcher, reloading the config file picks the target by position
+  const targets = await buildConfigs(options, 'build', names);
+  const watchers = await Promise.all(targets.map(async (target, index) => watchBundle({
+    loadConfig: async () => (await buildConfigs(options, 'build', names))[index] || target,
+    configFile: findConfigFile(options.config),
+    onBuild: (result, change, config) => {
+      printWatchTrigger(change);
+      if (targets.length > 1) {
+        console.log(chalk.blue(`\n🎯 ${getTargetLabel(config)}:`));
+      }
+
+      if (result.success) {
+        console.log(chalk.green('✅ Bundle created successfully!'));
+        printBuildSummary(config, result);
+
+        const analyze = getAnalysisFormat(options);
+        if (analyze) {
+          printBundleAnalysis(result, analyze);
+        }
+      } else {
+        console.log(chalk.red('❌ Build failed!'));
+        printBuildErrors(result);
+      }
+
+      console.log(chalk.gray('\n👀 Watching for changes... (press Ctrl+C to stop)'));
+    },
+    onError: (error) => {
+      console.error(chalk.red('❌ Watch error:'), error instanceof Error ? error.message : String(error));
+    },
+  })));
+
+  const stop = () => {
+    Promise.all(watchers.map(async watcher => watcher.close())).then(
+      () => process.exit(0),
+      () => process.exit(1)
+    );
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+}
+
+/**
+ * Run the development server: build in watch mode and restart the application after every rebuild
+ */
+async function runDev(options: DevOptions, args: string[]): Promise<void> {
+  const gracePeriod = Number(options.gracePeriod);
+  if (!Number.isFinite(gracePeriod) || gracePeriod < 0) {
+    throw new Error(`Invalid grace period: ${options.gracePeriod}`);
+  }
+
+  const nodeArgs: string[] = [];
+  if (options.inspect) {
+    nodeArgs.push(options.inspect === true ? '--inspect' : `--inspect=${options.inspect}`);
+  }
+  if (options.inspectBrk) {
+    nodeArgs.push(options.inspectBrk === true ? '--inspect-brk' : `--inspect-brk=${options.inspectBrk}`);
+  }
+
+  const server = new DevServer({
+    nodeArgs,
+    args,
+    gracePeriod,
+    onExit: (code, signal) => {
+      const status = signal ? `signal ${signal}` : `code ${code}`;
+      const color = code === 0 ? chalk.gray : chalk.red;
+      console.log(color(`\n⏹️  Process exited with ${status}, waiting for changes...`));
+    },
+    onError: (error) => {
+      console.error(chalk.red('❌ Failed to start process:'), error.message);
+    },
+  });
+
+  console.log(chalk.blue('🚀 Starting dev server...'));
+
+  // The process runs the output of the configured entry point, or of the first one of several
+  let entry = '';
+
+  const watcher = await watchBundle({
+    loadConfig: async () => {
+      const config = await buildConfig(options, 'dev');
+      entry = resolve(typeof config.entry === 'string' ? config.entry : Object.values(config.entry)[0]);
+      // Development builds are never minified and always have source maps
+      return { ...config, minify: false, sourcemap: config.sourcemap || true };
+    },
+    configFile: findConfigFile(options.config),
+    onBuild: (result, change) => {
+      printWatchTrigger(change);
+
+      if (!result.success) {
+        console.log(chalk.red('❌ Build failed!'));
+        printBuildErrors(result);
+        if (server.isRunning()) {
+          console.log(chalk.gray('\n   Keeping the previous process running'));
+        }
+        return;
+      }
+
+      const file = result.outputs?.find(output => output.entryPoint === entry)?.path || result.outputPath;
+      console.log(chalk.green(`✅ Built in ${result.time}ms, ${server.isRunning() ? 'restarting' : 'starting'} ${relative(process.cwd(), file)}`));
+      server.restart(file).catch((error: unknown) => {
+        console.error(chalk.red('❌ Failed to start process:'), error instanceof Error ? error.message : String(error));
+      });
+    },
+    onError: (error) => {
+      console.error(chalk.red('❌ Watch error:'), error instanceof Error ? error.message : String(error));
+    },
+  });
+
+  const stop = () => {
+    Promise.all([server.stop(), watcher.close()]).then(
+      () => process.exit(0),
+      () => process.exit(1)
+    );
+  };
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+}
+
+/**
+ * Generate the Dockerfile and .dockerignore for the resolved configuration
+ */
+async function runDocker(options: DockerCLIOptions): Promise<void> {
+  const config = await buildConfig(options, 'build');
+
+  let port: number | undefined;
+  if (options.port !== undefined) {
+    port = Number(options.port);
+    if (!Number.isInteger(port) || port <= 0) {
+      throw new Error(`Invalid port: ${options.port}`);
+    }
+  }
+
+  // Detect native packages without copying anything
+  const nodeModulesPath = resolve(process.cwd(), 'node_modules');
+  const nativePackages = existsSync(nodeModulesPath)
+    ? handleBinaryPackages(
+      { ...config, binaryPackages: { ...config.binaryPackages, strategy: 'external' } },
+      nodeModulesPath,
+      getOutputDir(config)
+    ).external
+    : [];
+
+  const dockerOptions: DockerOptions = {
+    config,
+    nativePackages,
+    configFile: findConfigFile(options.config),
+    port,
+  };
+
+  const files = [
+    { name: 'Dockerfile', contents: generateDockerfile(dockerOptions) },
+    { name: '.dockerignore', contents: generateDockerignore(dockerOptions) },
+  ];
+
+  const targetDir = resolve(options.dir);
+  mkdirSync(targetDir, { recursive: true });
+
+  for (const file of files) {
+    const filePath = resolve(targetDir, file.name);
+    if (existsSync(filePath) && !options.force) {
+      console.warn(chalk.yellow(`⚠️  ${relative(process.cwd(), filePath)} already exists, use --force to overwrite`));
+      continue;
+    }
+    writeFileSync(filePath, file.contents, 'utf-8');
+    console.log(chalk.green('✅ Wrote'), chalk.cyan(relative(process.cwd(), filePath)));
+  }
+
+  console.log(chalk.blue('\n🐳 Docker Summary:'));
+  console.log(chalk.gray(`   Node:   ${getNodeVersion(config.target)}`));
+  console.log(chalk.gray(`   Image:  ${getBaseImage(getNodeVersion(config.target), nativePackages, getTargetLibc(config))}`));
+  console.log(chalk.gray(`   Native: ${nativePackages.length > 0 ? nativePackages.join(', ') : 'none'}`));
+}
+
+/**
+ * Ask a yes/no question on the terminal
+ */
+async function confirm(question: string, defaultAnswer: boolean): Promise<boolean> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = (await rl.question(`${question} ${defaultAnswer ? '(Y/n)' : '(y/N)'} `)).trim().toLowerCase();
+    return answer === '' ? defaultAnswer : answer === 'y' || answer === 'yes';
+  } finally {
+    rl.close();
+  }
+}
+
+/**
+ * Write a config file for the detected project and add the build script to package.json
+ */
+async function runInit(options: { force?: boolean; yes?: boolean }): Promise<void> {
+  const project = detectProject();
+  const existing = findConfigFile();
+  if (existing && (!options.force || basename(existing) !== project.configFile)) {
+    const hint = basename(existing) === project.configFile ? ', use --force to overwrite' : '';
+    throw new Error(`Configuration file already exists: ${relative(process.cwd(), existing)}${hint}`);
+  }
+
+  console.log(chalk.blue('\n🔍 Detected project:'));
+  console.log(chalk.gray(`   Preset: ${project.preset}`));
+  console.log(chalk.gray(`   Entry:  ${project.entry || 'not found'}`));
+  console.log(chalk.gray(`   Output: ${project.output}`));
+  console.log(chalk.gray(`   Native: ${project.nativePackages.length > 0 ? project.nativePackages.join(', ') : 'none'}`));
+  console.log(chalk.gray(`   WASM:   ${project.wasmPackages.length > 0 ? project.wasmPackages.join(', ') : 'none'}`));
+
+  writeFileSync(resolve(project.configFile), generateConfigFile(project), 'utf-8');
+  console.log(chalk.green('\n✅ Wrote'), chalk.cyan(project.configFile));
+  if (!project.entry) {
+    console.warn(chalk.yellow('⚠️  No entry point detected, edit entry in'), project.configFile);
+  }
+
+  const packageInfo = readPackageInfo();
+  if (!packageInfo) {
+    console.log(chalk.gray('   No package.json found, skipping the build script'));
+    return;
+  }
+
+  if (!packageInfo.dependencies.includes('backbundle')) {
+    console.log(chalk.gray('   Install backbundle as a dev dependency so the config can import defineConfig'));
+  }
+
+  const current = packageInfo.scripts.build;
+  if (current === BUILD_SCRIPT) return;
+
+  const question = current
+    ? `Replace the build script "${current}" in package.json with "${BUILD_SCRIPT}"?`
+    : `Add "build": "${BUILD_SCRIPT}" to package.json?`;
+
+  let accepted = options.yes === true;
+  if (!accepted && process.stdin.isTTY) {
+    accepted = await confirm(question, !current);
+  } else if (!accepted) {
+    console.log(chalk.gray(`   Not a terminal, run with --yes to add "build": "${BUILD_SCRIPT}" to package.json`));
+  }
+
+  if (accepted) {
+    addBuildScript();
+    console.log(chalk.green('✅ Added build script to'), chalk.cyan('package.json'));
+  }
+}
+
+/**
+ * Print the files that triggered a watch build
+ */
+function printWatchTrigger(change: WatchChange): void {
+  if (change.trigger === 'initial') return;
+
+  const labels: Record<WatchChange['trigger'], string> = {
+    initial: 'initial build',
+    source: 'source change',
+    packages: 'node_modules change',
+    config: 'config change',
+    env: 'env file change',
+  };
+
+  console.log(chalk.blue(`\n🔄 Rebuilding (${labels[change.trigger]}):`));
+  change.files.forEach(file => {
+    console.log(chalk.cyan(`   ${relative(process.cwd(), file) || file}`));
+  });
+}
+
+/**
+ * Print the summary of a successful build
+ */
+function printBuildSummary(config: BackbundleConfig, result: BundleResult): void {
+  console.log(chalk.blue('\n📊 Build Summary:'));
+  if (typeof config.entry === 'string') {
+    console.log(chalk.gray(`   Entry:  ${config.entry}`));
+  } else {
+    const entries = Array.isArray(config.entry)
+      ? config.entry
+      : Object.entries(config.entry).map(([name, file]) => `${name}: ${file}`);
+    console.log(chalk.gray('   Entries:'));
+    entries.forEach(entry => {
+      console.log(chalk.gray(`     ${entry}`));
+    });
+  }
+  console.log(chalk.gray(`   Output: ${result.outputPath}`));
+  console.log(chalk.gray(`   Size:   ${formatBytes(result.size)}`));
+  console.log(chalk.gray(`   Time:   ${result.time}ms`));
+
+  if ((isMultiEntry(config) || config.splitting) && result.outputs) {
+    const outputDir = getOutputDir(config);
+    result.outputs.forEach(output => {
+      const chunk = output.chunk ? '  (chunk)' : '';
+      console.log(chalk.gray(`     ${relative(outputDir, output.path)}  ${formatBytes(output.size)}${chunk}`));
+    });
+  }
+
+  if (result.externalDependencies) {
+    const dependencies = Object.entries(result.externalDependencies);
+    console.log(chalk.blue(`\n📦 External dependencies (${dependencies.length}), written to package.json:`));
+    dependencies.forEach(([name, version]) => {
+      console.log(chalk.gray(`   ${name}@${version}`));
+    });
+  }
+
+  if (result.env) {
+    console.log(chalk.blue(`\n🔐 Inlined environment variables (${result.env.length}):`));
+    console.log(chalk.gray(`   ${result.env.join(', ')}`));
+  }
+
+  if (result.stubbedDependencies && result.stubbedDependencies.length > 0) {
+    console.log(chalk.blue(`\n🧩 Stubbed optional dependencies (${result.stubbedDependencies.length}):`));
+    console.log(chalk.gray(`   ${result.stubbedDependencies.join(', ')}`));
+  }
+
+  if (result.standalone) {
+    console.log(chalk.blue(`\n📁 Standalone node_modules: ${result.standalone.packages.length} packages, ${result.standalone.files} files`));
+  }
+
+  if (result.warnings && result.warnings.length > 0) {
+    console.log(chalk.yellow('\n⚠️  Warnings:'));
+    result.warnings.forEach(warning => {
+      console.log(chalk.yellow(`   ${warning}`));
+    });
+  }
+}
+
+/**
+ * Print the errors of a failed build
+ */
+function printBuildErrors(result: BundleResult): void {
+  if (result.errors && result.errors.length > 0) {
+    console.log(chalk.red('\n🚨 Errors:'));
+    result.errors.forEach(error => {
+      console.log(chalk.red(`   ${error}`));
+    });
+  }
+}
+
+/**
+ * Get the bundle analysis requested with --analyze or --analyze-html
+ */
+function getAnalysisFormat(options: CLIOptions): AnalysisFormat | null {
+  if (options.analyzeHtml) return 'html';
+  return options.analyze ? 'text' : null;
+}
+
+/**
+ * Print the bundle composition report from the build metafile
+ */
+function printBundleAnalysis(result: BundleResult, format: AnalysisFormat): void {
+  console.log(chalk.blue('\n📈 Bundle Analysis:'));
+
+  if (!result.metafile) {
+    console.log(chalk.gray('   No metafile available for this build'));
+    return;
+  }
+
+  if (format === 'html') {
+    const reportPath = extname(result.outputPath)
+      ? resolve(dirname(result.outputPath), `${basename(result.outputPath, extname(result.outputPath))}.report.html`)
+      : resolve(result.outputPath, 'report.html');
+    writeTreemapReport(result.metafile, reportPath);
+    console.log(chalk.gray(`   HTML report:  ${reportPath}`));
+  }
+
+  const analysis = analyzeMetafile(result.metafile);
+  const percent = (bytes: number) => analysis.inputBytes === 0
+    ? '0.0%'
+    : `${((bytes / analysis.inputBytes) * 100).toFixed(1)}%`;
+
+  const printEntries = (title: string, entries: SizeEntry[], limit: number, showModules = true) => {
+    if (entries.length === 0) return;
+
+    console.log(chalk.blue(`\n   ${title}:`));
+    const width = Math.min(Math.max(...entries.slice(0, limit).map(entry => entry.name.length)), 60);
+    entries.slice(0, limit).forEach(entry => {
+      const modules = !showModules ? '' : entry.modules === 1 ? '  1 module' : `  ${entry.modules} modules`;
+      console.log(chalk.gray(`     ${entry.name.padEnd(width)}  ${formatBytes(entry.bytes).padStart(10)}  ${percent(entry.bytes).padStart(6)}${modules}`));
+    });
+    if (entries.length > limit) {
+      console.log(chalk.gray(`     ... and ${entries.length - limit} more`));
+    }
+  };
+
+  console.log(chalk.gray(`   Output:       ${formatBytes(analysis.totalBytes)}`));
+  console.log(chalk.gray(`   node_modules: ${formatBytes(analysis.nodeModulesBytes)} (${percent(analysis.nodeModulesBytes)})`));
+  console.log(chalk.gray(`   Own code:     ${formatBytes(analysis.sourceBytes)} (${percent(analysis.sourceBytes)})`));
+
+  printEntries('By package', analysis.packages, 15);
+  printEntries('By source directory', analysis.directories, 10);
+  printEntries('Largest modules', analysis.modules, 20, false);
+}
+
 /**
  * Format bytes to human readable format
  */
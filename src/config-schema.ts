@@ -0,0 +1,383 @@
+import { parseBinaryTarget } from './binary-handler.js';
+import type { BackbundleConfig, FrameworkPreset, PackageRecipe } from './types.js';
+
+/**
+ * The subset of JSON Schema used to describe the configuration
+ */
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: 'string' | 'boolean' | 'object' | 'array';
+  minLength?: number;
+  enum?: (string | boolean)[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+}
+
+/**
+ * A problem found while validating a configuration
+ */
+export interface ConfigIssue {
+  /** Key path of the invalid value, e.g. 'wasmPackages.strategy' */
+  path: string;
+
+  /** What is wrong with the value */
+  message: string;
+}
+
+/**
+ * Error thrown for configurations that do not match the schema
+ */
+export class ConfigValidationError extends Error {
+  readonly issues: ConfigIssue[];
+  readonly file?: string;
+
+  constructor(issues: ConfigIssue[], file?: string) {
+    super([
+      `Invalid configuration${file ? ` in ${file}` : ''}:`,
+      ...issues.map(issue => `  - ${issue.path || '(root)'}: ${issue.message}`),
+    ].join('\n'));
+    this.name = 'ConfigValidationError';
+    this.issues = issues;
+    this.file = file;
+  }
+}
+
+/**
+ * Schemas of all the keys of a configuration type. Used with `satisfies` so the type-check fails
+ * when a key is added to or removed from the types without updating the schema.
+ */
+type SchemaProperties<T> = { [K in keyof Required<T>]: JsonSchema };
+
+const STRING_LIST: JsonSchema = { type: 'array', items: { type: 'string' } };
+
+const STRING_MAP: JsonSchema = { type: 'object', additionalProperties: { type: 'string' } };
+
+/**
+ * JSON Schema of BackbundleConfig, published as backbundle/schema.json
+ */
+export const CONFIG_SCHEMA: JsonSchema = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'https://unpkg.com/backbundle/dist/schema.json',
+  title: 'Backbundle configuration',
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    $schema: { type: 'string', description: 'JSON Schema of this file' },
+    name: { type: 'string', description: 'Name of the build target, used to select it with `backbundle build <names...>`' },
+    entry: {
+      description: 'Entry point file path, or multiple entry points built into the output directory',
+      anyOf: [{ type: 'string' }, STRING_LIST, STRING_MAP],
+    },
+    output: { type: 'string', description: 'Output file path, or the output directory when there are multiple entry points' },
+    preset: { type: 'string', description: "Framework preset to use: a built-in or registered preset, or a preset package such as 'backbundle-preset-acme'" },
+    extends: {
+      description: 'Presets or config files to inherit from, later entries and this configuration taking precedence. Arrays are combined, prefix an item with ! to remove an inherited one',
+      anyOf: [{ type: 'string' }, STRING_LIST],
+    },
+    presets: {
+      type: 'array',
+      description: 'Custom presets to register, usable as `preset` or in `extends`',
+      items: {
+        type: 'object',
+        additionalProperties: false,
+        properties: {
+          name: { type: 'string', description: 'Preset name' },
+          description: { type: 'string', description: 'Description of the preset' },
+          config: { type: 'object', description: 'Default configuration of the preset' },
+          package: { type: 'string', description: 'Package the preset was loaded from, for third-party presets' },
+        } satisfies SchemaProperties<FrameworkPreset>,
+      },
+    },
+    format: { enum: ['cjs', 'esm', 'iife'], description: "Output format, defaults to 'cjs'" },
+    splitting: { type: 'boolean', description: "Split modules loaded with `await import()` into chunks next to the bundle, requires format 'esm'" },
+    minify: { type: 'boolean', description: 'Whether to minify the code, defaults to true' },
+    sourcemap: { enum: [true, false, 'inline', 'external', 'both'], description: 'Whether to generate source map, defaults to false' },
+    target: { type: 'string', description: "Node.js target version, defaults to 'node18'" },
+    external: { ...STRING_LIST, description: 'List of external dependencies' },
+    excludePackages: { type: 'boolean', description: 'Whether to exclude all npm packages, defaults to false' },
+    workspacePackages: { type: 'boolean', description: 'Bundle the packages of the monorepo workspace from source, even when npm packages are excluded (default: true)' },
+    alias: { ...STRING_MAP, description: 'Custom aliases for module resolution' },
+    define: { ...STRING_MAP, description: 'Environment variables replacement' },
+    mode: { type: 'string', description: 'Build mode, selects the `.env.<mode>` files to load' },
+    envFile: {
+      description: ".env files to load, layered with their `.local`, `.<mode>` and `.<mode>.local` variants (default: '.env')",
+      anyOf: [{ type: 'string' }, STRING_LIST],
+    },
+    envPrefix: {
+      description: "Prefixes of the environment variables inlined as `process.env.X` defines (default: 'BACKBUNDLE_'). Empty prefixes would inline the whole environment and are rejected.",
+      anyOf: [{ type: 'string', minLength: 1 }, { type: 'array', items: { type: 'string', minLength: 1 } }],
+    },
+    keepNames: { type: 'boolean', description: 'Whether to preserve function names, defaults to false' },
+    decoratorMetadata: { type: 'boolean', description: "Emit `design:*` decorator metadata by compiling files with decorators with the project's TypeScript" },
+    treeShaking: { type: 'boolean', description: 'Whether to enable tree shaking, defaults to true' },
+    packageJson: {
+      description: 'Write a package.json (and pruned package-lock.json) for the external packages next to the output',
+      anyOf: [
+        { type: 'boolean' },
+        {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            lockfile: { type: 'boolean', description: 'Whether to write a pruned package-lock.json when one is available, defaults to true' },
+          } satisfies SchemaProperties<Extract<BackbundleConfig['packageJson'], object>>,
+        },
+      ],
+    },
+    standalone: { type: 'boolean', description: 'Copy the minimal node_modules tree needed by external packages into the output directory' },
+    relocateFiles: { type: 'boolean', description: 'Copy files that bundled packages read relative to their own modules into the output and rewrite the references (default: false)' },
+    optionalDependencies: {
+      description: 'Replace optional dependencies that cannot be resolved with stubs throwing MODULE_NOT_FOUND at runtime',
+      anyOf: [
+        { type: 'boolean' },
+        {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            packages: { ...STRING_LIST, description: 'Packages to stub wherever they are imported when they cannot be resolved' },
+            loaders: { ...STRING_LIST, description: 'Additional lazy loader helpers whose required modules are optional' },
+          } satisfies SchemaProperties<Extract<BackbundleConfig['optionalDependencies'], object>>,
+        },
+      ],
+    },
+    esbuildOptions: { type: 'object', description: 'Additional esbuild options' },
+    binaryPackages: {
+      type: 'object',
+      description: 'Binary packages handling configuration',
+      additionalProperties: false,
+      properties: {
+        strategy: { enum: ['copy', 'external', 'ignore'], description: 'Strategy for handling binary packages' },
+        packages: { ...STRING_LIST, description: 'List of packages to treat as binary' },
+        outputDir: { type: 'string', description: 'Output directory for copied binaries' },
+        preserveStructure: { type: 'boolean', description: 'Whether to preserve directory structure' },
+        target: { type: 'string', description: "Deploy target of copied prebuilds, e.g. 'linux-x64-glibc' or 'linux-arm64-musl'" },
+        rewriteLoaders: { type: 'boolean', description: 'Bundle copied packages and rewrite their addon loaders to require the copied files (default: true)' },
+        recipes: {
+          type: 'array',
+          description: 'Recipes for packages with native files, replacing built-in recipes of the same name',
+          items: {
+            type: 'object',
+            additionalProperties: false,
+            properties: {
+              name: { type: 'string', description: 'Package name' },
+              description: { type: 'string', description: 'Description of the recipe' },
+              files: { ...STRING_LIST, description: "Glob patterns of the files to copy, relative to the package or as '<package>:<pattern>'" },
+              outputDir: { type: 'string', description: 'Directory the files are copied into, relative to the output directory' },
+              locate: { enum: ['loader', 'node_modules', 'env'], description: 'How the runtime locates the copied files' },
+              packages: { ...STRING_LIST, description: "Additional packages copied whole, such as '@img/sharp-*'" },
+              env: { ...STRING_MAP, description: 'Environment variables pointing at copied files, relative to the output directory' },
+              external: { ...STRING_LIST, description: 'Additional modules to mark as external' },
+            } satisfies SchemaProperties<PackageRecipe>,
+          },
+        },
+      } satisfies SchemaProperties<NonNullable<BackbundleConfig['binaryPackages']>>,
+    },
+    wasmPackages: {
+      type: 'object',
+      description: 'WebAssembly modules handling configuration',
+      additionalProperties: false,
+      properties: {
+        strategy: { enum: ['copy', 'external', 'ignore', 'inline'], description: 'Strategy for handling WASM packages' },
+        packages: { ...STRING_LIST, description: 'List of packages to treat as WASM' },
+        outputDir: { type: 'string', description: 'Output directory for copied WASM files' },
+        preserveStructure: { type: 'boolean', description: 'Whether to preserve directory structure' },
+      } satisfies SchemaProperties<NonNullable<BackbundleConfig['wasmPackages']>>,
+    },
+    assetPackages: {
+      type: 'object',
+      description: 'Asset files handling configuration',
+      additionalProperties: false,
+      properties: {
+        strategy: { enum: ['copy', 'external', 'ignore', 'inline'], description: 'Strategy for handling asset packages (JSON, etc.)' },
+        packages: { ...STRING_LIST, description: 'List of packages to treat as assets' },
+        outputDir: { type: 'string', description: 'Output directory for copied assets' },
+        extensions: { ...STRING_LIST, description: 'File extensions to treat as assets' },
+        preserveStructure: { type: 'boolean', description: 'Whether to preserve directory structure' },
+      } satisfies SchemaProperties<NonNullable<BackbundleConfig['assetPackages']>>,
+    },
+  } satisfies SchemaProperties<BackbundleConfig & { $schema?: string }>,
+};
+
+/**
+ * Edit distance between two strings
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1].toLowerCase() === b[j - 1].toLowerCase() ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Find the closest candidate to a misspelled value
+ */
+export function suggestClosest(value: string, candidates: string[]): string | null {
+  let best: string | null = null;
+  let bestDistance = Math.max(2, Math.floor(value.length / 3)) + 1;
+
+  for (const candidate of candidates) {
+    const distance = levenshtein(value, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a value against a schema, collecting issues
+ */
+function validateValue(value: unknown, schema: JsonSchema, path: string, issues: ConfigIssue[]): void {
+  if (schema.anyOf) {
+    // Report the issues of the alternative matching the value's type, if any
+    const attempts = schema.anyOf.map(alternative => {
+      const alternativeIssues: ConfigIssue[] = [];
+      validateValue(value, alternative, path, alternativeIssues);
+      return { alternative, issues: alternativeIssues };
+    });
+    if (attempts.some(attempt => attempt.issues.length === 0)) return;
+
+    const sameType = attempts.find(attempt => attempt.alternative.type === describeType(value));
+    if (sameType) {
+      issues.push(...sameType.issues);
+    } else {
+      const types = schema.anyOf.map(alternative => alternative.type ?? 'value').join(' or ');
+      issues.push({ path, message: `Expected ${types}, got ${describeType(value)}` });
+    }
+    return;
+  }
+
+  if (schema.enum) {
+    if (!schema.enum.some(option => option === value)) {
+      const expected = schema.enum.map(option => JSON.stringify(option)).join(', ');
+      const suggestion = typeof value === 'string'
+        ? suggestClosest(value, schema.enum.filter(option => typeof option === 'string'))
+        : null;
+      issues.push({
+        path,
+        message: `Expected one of ${expected}, got ${JSON.stringify(value)}${suggestion ? `. Did you mean "${suggestion}"?` : ''}`,
+      });
+    }
+    return;
+  }
+
+  if (schema.type && describeType(value) !== schema.type) {
+    issues.push({ path, message: `Expected ${schema.type}, got ${describeType(value)}` });
+    return;
+  }
+
+  if (typeof value === 'string' && schema.minLength !== undefined && value.length < schema.minLength) {
+    issues.push({ path, message: 'Expected a non-empty string' });
+    return;
+  }
+
+  const items = schema.items;
+  if (Array.isArray(value) && items) {
+    value.forEach((item, index) => {
+      validateValue(item, items, joinPath(path, index), issues);
+    });
+    return;
+  }
+
+  if (isRecord(value)) {
+    const properties = schema.properties || {};
+    for (const [key, item] of Object.entries(value)) {
+      const property = properties[key];
+      if (property) {
+        validateValue(item, property, joinPath(path, key), issues);
+      } else if (schema.additionalProperties === false) {
+        const suggestion = suggestClosest(key, Object.keys(properties).filter(name => name !== '$schema'));
+        issues.push({
+          path: joinPath(path, key),
+          message: `Unknown option${suggestion ? `. Did you mean "${joinPath(path, suggestion)}"?` : ''}`,
+        });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateValue(item, schema.additionalProperties, joinPath(path, key), issues);
+      }
+    }
+  }
+}
+
+/**
+ * Validate a configuration, returning the problems found.
+ * Issue paths start with the given key path, e.g. the name of a build target.
+ */
+export function validateConfig(config: unknown, path: string = ''): ConfigIssue[] {
+  const issues: ConfigIssue[] = [];
+  validateValue(config, CONFIG_SCHEMA, path, issues);
+
+  // Values with a format the schema cannot express
+  if (isRecord(config) && isRecord(config.binaryPackages) && typeof config.binaryPackages.target === 'string') {
+    try {
+      parseBinaryTarget(config.binaryPackages.target);
+    } catch (error) {
+      issues.push({ path: joinPath(joinPath(path, 'binaryPackages'), 'target'), message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  // Recipes need the name of the package they describe
+  if (isRecord(config) && isRecord(config.binaryPackages) && Array.isArray(config.binaryPackages.recipes)) {
+    config.binaryPackages.recipes.forEach((recipe: unknown, index) => {
+      if (isRecord(recipe) && typeof recipe.name !== 'string') {
+        issues.push({ path: joinPath(joinPath(joinPath(path, 'binaryPackages'), 'recipes'), index), message: 'Recipes require a name' });
+      }
+    });
+  }
+
+  // Presets need a name and are configurations themselves
+  if (isRecord(config) && Array.isArray(config.presets)) {
+    config.presets.forEach((preset: unknown, index) => {
+      if (!isRecord(preset)) return;
+      const presetPath = joinPath(joinPath(path, 'presets'), index);
+      if (typeof preset.name !== 'string') {
+        issues.push({ path: joinPath(presetPath, 'name'), message: 'Presets require a name' });
+      }
+      if (isRecord(preset.config)) {
+        issues.push(...validateConfig(preset.config, joinPath(presetPath, 'config')));
+      } else if (preset.config === undefined) {
+        issues.push({ path: joinPath(presetPath, 'config'), message: 'Presets require a config' });
+      }
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Throw a ConfigValidationError listing all problems if the configuration is invalid
+ */
+export function assertValidConfig(config: unknown, file?: string, path?: string): asserts config is Partial<BackbundleConfig> {
+  const issues = validateConfig(config, path);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues, file);
+  }
+}
@@ -0,0 +1,107 @@
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { ConfigValidationError } from './config-schema.js';
+import { deepMergeConfig, isTargetRecord, loadConfigTargets, parseEntryPoints } from './config.js';
+
+describe('parseEntryPoints', () => {
+  it('resolves a single input to a single entry point', () => {
+    assert.equal(parseEntryPoints(['src/index.ts']), resolve('src/index.ts'));
+  });
+
+  it('keeps multiple inputs as a list', () => {
+    assert.deepEqual(parseEntryPoints(['src/a.ts', 'src/b.ts']), [resolve('src/a.ts'), resolve('src/b.ts')]);
+  });
+
+  it('names entries given as name=file pairs', () => {
+    assert.deepEqual(parseEntryPoints(['api=src/api.ts', 'worker=src/worker.ts']), {
+      api: resolve('src/api.ts'),
+      worker: resolve('src/worker.ts'),
+    });
+  });
+
+  it('splits named entries on the first = only', () => {
+    assert.deepEqual(parseEntryPoints(['other=src/b=1.ts']), { other: resolve('src/b=1.ts') });
+  });
+});
+
+describe('isTargetRecord', () => {
+  it('accepts records of named configurations', () => {
+    assert.equal(isTargetRecord({ api: { entry: 'src/api.ts' }, worker: { entry: 'src/worker.ts', minify: false } }), true);
+  });
+
+  it('ignores the $schema key', () => {
+    assert.equal(isTargetRecord({ $schema: './schema.json', api: { entry: 'src/api.ts' } }), true);
+  });
+
+  it('rejects single configurations', () => {
+    assert.equal(isTargetRecord({ entry: 'src/index.ts', wasmPackages: { strategy: 'inline' } }), false);
+    assert.equal(isTargetRecord({}), false);
+    assert.equal(isTargetRecord([{ entry: 'src/index.ts' }]), false);
+    assert.equal(isTargetRecord(null), false);
+  });
+
+  it('rejects mistyped object options that use no known option', () => {
+    assert.equal(isTargetRecord({ wasmPackage: { strategy: 'inline', packages: ['fakewasm'] } }), false);
+  });
+});
+
+describe('deepMergeConfig', () => {
+  it('merges nested options and combines arrays without duplicates', () => {
+    const merged = deepMergeConfig(
+      { external: ['pg', 'redis'], assetPackages: { strategy: 'copy', extensions: ['.json'] } },
+      { external: ['redis', 'mysql2'], assetPackages: { extensions: ['.txt'] } }
+    );
+
+    assert.deepEqual(merged, {
+      external: ['pg', 'redis', 'mysql2'],
+      assetPackages: { strategy: 'copy', extensions: ['.json', '.txt'] },
+    });
+  });
+
+  it('removes base array items prefixed with !', () => {
+    assert.deepEqual(deepMergeConfig({ external: ['pg', 'redis'] }, { external: ['!pg', 'mysql2'] }), { external: ['redis', 'mysql2'] });
+    assert.deepEqual(deepMergeConfig({}, { external: ['!pg'] }), { external: [] });
+  });
+
+  it('replaces the entry points instead of combining them', () => {
+    assert.deepEqual(deepMergeConfig({ entry: ['a.ts', 'b.ts'] }, { entry: ['c.ts'] }), { entry: ['c.ts'] });
+    assert.deepEqual(deepMergeConfig({ entry: 'a.ts' }, { minify: false }), { minify: false, entry: 'a.ts' });
+  });
+
+  it('leaves out undefined overrides', () => {
+    assert.deepEqual(deepMergeConfig({ minify: true }, { minify: undefined }), { minify: true });
+  });
+
+  it('rejects merged configurations that do not match the schema', () => {
+    assert.throws(() => deepMergeConfig({}, { format: 'umd' } as never), ConfigValidationError);
+  });
+});
+
+describe('loadConfigTargets', () => {
+  const root = mkdtempSync(join(tmpdir(), 'backbundle-config-'));
+  after(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('resolves the paths of extended configuration files against their directory', async () => {
+    mkdirSync(join(root, 'shared'));
+    mkdirSync(join(root, 'app'));
+    writeFileSync(join(root, 'shared', 'base.json'), JSON.stringify({
+      entry: { api: 'src/api.ts' },
+      output: 'dist',
+      alias: { '@': './src', react: 'preact/compat' },
+      external: ['pg'],
+    }));
+    writeFileSync(join(root, 'app', 'backbundle.config.json'), JSON.stringify({ extends: '../shared/base.json', external: ['!pg', 'redis'] }));
+
+    assert.deepEqual(await loadConfigTargets(undefined, join(root, 'app')), [{
+      entry: { api: join(root, 'shared', 'src', 'api.ts') },
+      output: join(root, 'shared', 'dist'),
+      alias: { '@': join(root, 'shared', 'src'), react: 'preact/compat' },
+      external: ['redis'],
+    }]);
+  });
+});
@@ -1,10 +1,44 @@
 import { existsSync } from 'fs';
-import { resolve } from 'path';
+import { dirname, isAbsolute, resolve } from 'path';
 import { pathToFileURL } from 'url';
-import type { BackbundleConfig } from './types.js';
+import { assertValidConfig, CONFIG_SCHEMA, ConfigValidationError, suggestClosest, validateConfig } from './config-schema.js';
+import { listPresets, registerPreset, resolvePreset } from './presets.js';
+import type { BackbundleConfig, ConfigEnv, EntryPoints, UserConfig, UserConfigExport, UserConfigFn, UserConfigTargets } from './types.js';
 
-function isValidConfig(obj: unknown): obj is Partial<BackbundleConfig> {
-  return typeof obj === 'object' && obj !== null;
+/**
+ * Type a configuration, e.g. `export default defineConfig({ entry: 'src/main.ts' })`,
+ * `export default defineConfig({ api: { ... }, worker: { ... } })` or
+ * `export default defineConfig(({ mode }) => ({ minify: mode === 'production' }))`
+ */
+export function defineConfig(config: UserConfig): UserConfig;
+export function defineConfig(config: UserConfig[]): UserConfig[];
+export function defineConfig(config: Record<string, UserConfig>): Record<string, UserConfig>;
+export function defineConfig(config: Promise<UserConfigTargets>): Promise<UserConfigTargets>;
+export function defineConfig(config: UserConfigFn): UserConfigFn;
+export function defineConfig(config: UserConfigExport): UserConfigExport;
+export function defineConfig(config: UserConfigExport): UserConfigExport {
+  return config;
+}
+
+function isConfigFunction(value: unknown): value is (env: ConfigEnv) => unknown {
+  return typeof value === 'function';
+}
+
+/**
+ * Get the configuration from the default export of a config module, calling function configs
+ */
+async function resolveConfigExport(module: unknown, configEnv: ConfigEnv): Promise<unknown> {
+  const exported = typeof module === 'object' && module !== null && 'default' in module
+    ? (module as { default: unknown }).default
+    : module;
+  return isConfigFunction(exported) ? await exported(configEnv) : await exported;
+}
+
+/**
+ * Append a query to a module URL so that edited config files are re-evaluated on reload
+ */
+function withCacheBust(url: string): string {
+  return `${url}?t=${Date.now()}`;
 }
 
 /**
@@ -18,9 +52,9 @@ const CONFIG_FILES = [
 ];
 
 /**
- * Load configuration from file
+ * Find the configuration file to load
  */
-export async function loadConfig(configPath?: string, baseDir: string = process.cwd()): Promise<Partial<BackbundleConfig> | null> {
+export function findConfigFile(configPath?: string, baseDir: string = process.cwd()): string | null {
   let configFile: string | null = null;
 
   if (configPath) {
@@ -40,54 +74,303 @@ export async function loadConfig(configPath?: string, baseDir: string = process.
     }
   }
 
+  return configFile;
+}
+
+/**
+ * Import a config file and evaluate its export
+ */
+async function loadConfigExport(configFile: string, configEnv: ConfigEnv): Promise<unknown> {
+  if (configFile.endsWith('.json')) {
+    // Handle JSON config files
+    const { readFileSync } = await import('fs');
+    const content = readFileSync(configFile, 'utf-8');
+    return JSON.parse(content);
+  } else if (configFile.endsWith('.ts')) {
+    // Handle TypeScript config files (requires tsx or ts-node)
+    let module: unknown;
+    try {
+      const tsx = await import('tsx/esm/api');
+      tsx.register();
+      module = await import(withCacheBust(pathToFileURL(configFile).href));
+    } catch (error) {
+      throw new Error(`Failed to load TypeScript config file. Make sure tsx is installed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return resolveConfigExport(module, configEnv);
+  } else {
+    // Handle JavaScript config files (.js, .mjs)
+    const fileUrl = pathToFileURL(configFile).href;
+    const module: unknown = await import(withCacheBust(fileUrl));
+    return resolveConfigExport(module, configEnv);
+  }
+}
+
+/**
+ * Check whether a config export is a record of named build targets rather than a single configuration.
+ * Every target must use at least one known option, so a configuration made of mistyped object options
+ * such as `{ wasmPackage: {...} }` is still validated as a configuration and reported.
+ */
+export function isTargetRecord(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+
+  const options = Object.keys(CONFIG_SCHEMA.properties || {});
+  const entries = Object.entries(value).filter(([key]) => key !== '$schema');
+  return entries.length > 0 && entries.every(([key, target]: [string, unknown]) =>
+    !options.includes(key) && typeof target === 'object' && target !== null && !Array.isArray(target) &&
+    Object.keys(target).some(option => options.includes(option))
+  );
+}
+
+/**
+ * Split a config export into its build targets, with the key path of each target
+ */
+function getConfigTargets(exported: unknown): { path: string; config: unknown }[] {
+  if (Array.isArray(exported)) {
+    return exported.map((config: unknown, index) => ({ path: `[${index}]`, config }));
+  }
+
+  if (isTargetRecord(exported)) {
+    return Object.entries(exported)
+      .filter(([key]) => key !== '$schema')
+      .map(([name, config]) => ({ path: name, config: typeof config === 'object' ? { name, ...config } : config }));
+  }
+
+  return [{ path: '', config: exported }];
+}
+
+/**
+ * Load the build targets defined in a config file.
+ * A config file exports a single configuration, an array of configurations or a record of named configurations.
+ */
+export async function loadConfigTargets(
+  configPath?: string,
+  baseDir: string = process.cwd(),
+  configEnv: ConfigEnv = { mode: 'production', command: 'build', env: process.env }
+): Promise<UserConfig[] | null> {
+  const configFile = findConfigFile(configPath, baseDir);
+
   if (!configFile) {
     return null;
   }
 
+  let targets: { path: string; config: unknown }[];
   try {
     console.log(`📄 Loading config from: ${configFile}`);
-
-    if (configFile.endsWith('.json')) {
-      // Handle JSON config files
-      const { readFileSync } = await import('fs');
-      const content = readFileSync(configFile, 'utf-8');
-      const parsed: unknown = JSON.parse(content);
-      if (isValidConfig(parsed)) {
-        return parsed;
-      }
-      throw new Error('Invalid configuration format');
-    } else if (configFile.endsWith('.ts')) {
-      // Handle TypeScript config files (requires tsx or ts-node)
-      try {
-        const { pathToFileURL } = await import('url');
-        const tsx = await import('tsx/esm/api');
-        tsx.register();
-        const module: unknown = await import(pathToFileURL(configFile).href);
-        const config = typeof module === 'object' && module !== null && 'default' in module 
-          ? (module as { default: unknown }).default 
-          : module;
-        if (isValidConfig(config)) {
-          return config;
-        }
-        throw new Error('Invalid configuration format');
-      } catch (error) {
-        throw new Error(`Failed to load TypeScript config file. Make sure tsx is installed: ${error instanceof Error ? error.message : String(error)}`);
-      }
-    } else {
-      // Handle JavaScript config files (.js, .mjs)
-      const fileUrl = pathToFileURL(configFile).href;
-      const module: unknown = await import(fileUrl);
-      const config = typeof module === 'object' && module !== null && 'default' in module 
-        ? (module as { default: unknown }).default 
-        : module;
-      if (isValidConfig(config)) {
-        return config;
-      }
-      throw new Error('Invalid configuration format');
-    }
+    targets = getConfigTargets(await loadConfigExport(configFile, configEnv));
   } catch (error) {
     throw new Error(`Failed to load configuration from ${configFile}: ${error instanceof Error ? error.message : String(error)}`);
   }
+
+  const issues = targets.flatMap(target => validateConfig(target.config, target.path));
+
+  // Targets are selected by name, so names must be unique
+  const names = new Set<string>();
+  for (const target of targets) {
+    const name = typeof target.config === 'object' && target.config !== null && 'name' in target.config ? target.config.name : undefined;
+    if (typeof name !== 'string') continue;
+    if (names.has(name)) {
+      issues.push({ path: target.path ? `${target.path}.name` : 'name', message: `Duplicate build target name "${name}"` });
+    }
+    names.add(name);
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues, configFile);
+  }
+
+  const configs: UserConfig[] = [];
+  for (const target of targets) {
+    assertValidConfig(target.config, configFile, target.path);
+    configs.push(await resolveExtends(target.config, dirname(configFile), configEnv, [configFile]));
+  }
+  return configs;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  if (typeof value !== 'object' || value === null) return false;
+
+  const prototype: unknown = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+/**
+ * Check whether an array item removes an inherited item, such as `'!pg'` in `external`
+ */
+function isRemoval(item: unknown): item is string {
+  return typeof item === 'string' && item.startsWith('!');
+}
+
+/**
+ * Merge two values: objects are merged recursively, arrays are concatenated without duplicates and
+ * other values are replaced. Undefined values are left out.
+ * Array items starting with `!` remove the item from the base instead of being added.
+ */
+function mergeValues(base: unknown, override: unknown): unknown {
+  if (Array.isArray(override)) {
+    const baseItems: unknown[] = Array.isArray(base) ? base : [];
+    const overrideItems: unknown[] = override;
+    const removed = new Set(overrideItems.filter(isRemoval).map(item => item.slice(1)));
+    const items = [...baseItems, ...overrideItems.filter(item => !isRemoval(item))];
+    return [...new Set(items.filter(item => typeof item !== 'string' || !removed.has(item)))];
+  }
+
+  if (isRecord(override)) {
+    const merged: Record<string, unknown> = {};
+    for (const [key, value] of [...Object.entries(isRecord(base) ? base : {}), ...Object.entries(override)]) {
+      if (value === undefined) continue;
+      merged[key] = mergeValues(merged[key], value);
+    }
+    return merged;
+  }
+
+  return override === undefined ? base : override;
+}
+
+/**
+ * Merge a configuration on top of a base configuration. Nested options are merged and arrays such as
+ * `external` or `assetPackages.extensions` are combined, except for the entry points, which are replaced.
+ * Prefix an array item with `!` to remove it from the base, e.g. `external: ['!pg']`.
+ */
+export function deepMergeConfig(base: UserConfig, override: UserConfig): UserConfig {
+  const { entry: baseEntry, ...baseOptions } = base;
+  const { entry = baseEntry, ...overrideOptions } = override;
+
+  const merged = mergeValues(baseOptions, overrideOptions);
+  assertValidConfig(merged);
+
+  return entry === undefined ? merged : { ...merged, entry };
+}
+
+/**
+ * Resolve the relative paths of a configuration loaded from another directory against that directory:
+ * the entry points, the output and alias targets starting with `./` or `../`
+ */
+function rebaseConfigPaths(config: UserConfig, dir: string): UserConfig {
+  const rebase = (path: string) => resolve(dir, path);
+  const { entry, output, alias } = config;
+
+  return {
+    ...config,
+    ...(entry !== undefined && {
+      entry: typeof entry === 'string'
+        ? rebase(entry)
+        : Array.isArray(entry)
+          ? entry.map(rebase)
+          : Object.fromEntries(Object.entries(entry).map(([name, file]) => [name, rebase(file)])),
+    }),
+    ...(output !== undefined && { output: rebase(output) }),
+    ...(alias !== undefined && {
+      alias: Object.fromEntries(Object.entries(alias).map(([name, target]) => [name, /^\.\.?\//.test(target) ? rebase(target) : target])),
+    }),
+  };
+}
+
+/**
+ * Load a base configuration from `extends`: a config file path relative to the extending config,
+ * or the name of a preset or preset package
+ */
+async function loadBaseConfig(specifier: string, baseDir: string, configEnv: ConfigEnv, chain: string[]): Promise<UserConfig> {
+  const isFile = specifier.startsWith('.') || isAbsolute(specifier);
+  const id = isFile ? resolve(baseDir, specifier) : specifier;
+  if (chain.includes(id)) {
+    throw new Error(`Circular extends: ${[...chain, id].join(' -> ')}`);
+  }
+
+  if (isFile) {
+    if (!existsSync(id)) {
+      throw new Error(`Extended configuration file not found: ${id}`);
+    }
+
+    const targets = getConfigTargets(await loadConfigExport(id, configEnv));
+    if (targets.length !== 1) {
+      throw new Error(`Extended configuration file ${id} must define a single configuration`);
+    }
+
+    const config = targets[0].config;
+    assertValidConfig(config, id);
+    return rebaseConfigPaths(await resolveExtends(config, dirname(id), configEnv, [...chain, id]), dirname(id));
+  }
+
+  const preset = await resolvePreset(specifier, baseDir);
+  if (!preset) {
+    const suggestion = suggestClosest(specifier, listPresets().map(candidate => candidate.name));
+    throw new Error(`Unknown preset "${specifier}" in extends${suggestion ? `, did you mean "${suggestion}"?` : ''}`);
+  }
+
+  return resolveExtends(preset.config, baseDir, configEnv, [...chain, id]);
+}
+
+/**
+ * Merge the base configurations a configuration extends into it.
+ * Presets defined by the configuration are registered first, so that it can extend them.
+ */
+async function resolveExtends(config: UserConfig, baseDir: string, configEnv: ConfigEnv, chain: string[]): Promise<UserConfig> {
+  config.presets?.forEach(registerPreset);
+
+  const { extends: parents, ...rest } = config;
+  if (!parents) {
+    return rest;
+  }
+
+  let merged: UserConfig = {};
+  for (const parent of Array.isArray(parents) ? parents : [parents]) {
+    // Target names are not inherited
+    const { name: _name, ...base } = await loadBaseConfig(parent, baseDir, configEnv, chain);
+    merged = deepMergeConfig(merged, base);
+  }
+
+  return deepMergeConfig(merged, rest);
+}
+
+/**
+ * Get the configuration of a preset with the base configurations it extends,
+ * loading it from a preset package when needed
+ */
+export async function resolvePresetConfig(
+  name: string,
+  baseDir: string = process.cwd(),
+  configEnv: ConfigEnv = { mode: 'production', command: 'build', env: process.env }
+): Promise<UserConfig | undefined> {
+  const preset = await resolvePreset(name, baseDir);
+  return preset ? resolveExtends(preset.config, baseDir, configEnv, [name]) : undefined;
+}
+
+/**
+ * Load configuration from file
+ */
+export async function loadConfig(
+  configPath?: string,
+  baseDir: string = process.cwd(),
+  configEnv?: ConfigEnv
+): Promise<Partial<BackbundleConfig> | null> {
+  const targets = await loadConfigTargets(configPath, baseDir, configEnv);
+
+  if (targets && targets.length > 1) {
+    throw new Error('The configuration defines multiple build targets, use loadConfigTargets() to load them');
+  }
+
+  return targets ? targets[0] : null;
+}
+
+/**
+ * Parse --input values into entry points, supporting name=file pairs for named entries.
+ * Only the first `=` separates the name, so file paths may contain `=`.
+ */
+export function parseEntryPoints(inputs: string[]): EntryPoints {
+  if (inputs.length === 1 && !inputs[0].includes('=')) {
+    return resolve(inputs[0]);
+  }
+
+  if (inputs.every(input => input.includes('='))) {
+    const entries: Record<string, string> = {};
+    inputs.forEach(input => {
+      const separator = input.indexOf('=');
+      entries[input.slice(0, separator)] = resolve(input.slice(separator + 1));
+    });
+    return entries;
+  }
+
+  return inputs.map(input => resolve(input));
 }
 
 /**
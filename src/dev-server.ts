@@ -0,0 +1,144 @@
+import { spawn, type ChildProcess } from 'child_process';
+
+/**
+ * Options for the development server process
+ */
+export interface DevServerOptions {
+  /** Additional Node.js flags, e.g. --inspect */
+  nodeArgs?: string[];
+
+  /** Arguments passed to the application */
+  args?: string[];
+
+  /** Time in milliseconds to wait after SIGTERM before killing the process, defaults to 5000 */
+  gracePeriod?: number;
+
+  /** Environment variables for the process, defaults to process.env */
+  env?: NodeJS.ProcessEnv;
+
+  /** Called when the process exits on its own (not stopped by the dev server) */
+  onExit?: (code: number | null, signal: NodeJS.Signals | null) => void;
+
+  /** Called when the process cannot be started or signalled, e.g. ENOENT or EACCES */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Runs the bundled application and restarts it after every rebuild
+ */
+export class DevServer {
+  private options: DevServerOptions;
+  private child: ChildProcess | null = null;
+  private exited: Promise<void> = Promise.resolve();
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(options: DevServerOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Whether the application process is currently running
+   */
+  isRunning(): boolean {
+    return this.child !== null;
+  }
+
+  /**
+   * Stop the running process (if any) and start the given output file
+   */
+  async restart(file: string): Promise<void> {
+    return this.enqueue(async () => {
+      await this.terminate();
+      this.spawn(file);
+    });
+  }
+
+  /**
+   * Stop the running process, waiting for the grace period before killing it
+   */
+  async stop(): Promise<void> {
+    return this.enqueue(async () => this.terminate());
+  }
+
+  /**
+   * Run a task after the previous ones. The returned promise rejects with the task's error,
+   * while the queue itself keeps going so later restarts still run.
+   */
+  private async enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Start the application process
+   */
+  private spawn(file: string): void {
+    const args = [
+      '--enable-source-maps',
+      ...(this.options.nodeArgs || []),
+      file,
+      ...(this.options.args || []),
+    ];
+
+    const child = spawn(process.execPath, args, {
+      stdio: 'inherit',
+      env: this.options.env || process.env,
+    });
+    this.child = child;
+
+    this.exited = new Promise(resolve => {
+      child.once('exit', (code, signal) => {
+        // Only report exits that were not requested by terminate()
+        if (this.child === child) {
+          this.child = null;
+          this.options.onExit?.(code, signal);
+        }
+        resolve();
+      });
+
+      // Without a listener, a process that cannot be spawned would crash the dev server
+      child.on('error', (error) => {
+        // A process that never started emits no 'exit' event
+        if (child.pid === undefined) {
+          if (this.child === child) this.child = null;
+          resolve();
+        }
+        if (this.options.onError) {
+          this.options.onError(error);
+        } else {
+          console.error('❌ Process error:', error.message);
+        }
+      });
+    });
+  }
+
+  /**
+   * Send SIGTERM to the process and force kill it once the grace period has passed
+   */
+  private async terminate(): Promise<void> {
+    const child = this.child;
+    if (!child) return;
+    this.child = null;
+
+    const exited = this.exited;
+    child.kill('SIGTERM');
+
+    let timer: NodeJS.Timeout | null = null;
+    const timedOut = await Promise.race([
+      exited.then(() => false),
+      new Promise<boolean>(resolve => {
+        timer = setTimeout(() => {
+          resolve(true);
+        }, this.options.gracePeriod ?? 5000);
+      }),
+    ]);
+    if (timer) clearTimeout(timer);
+
+    if (timedOut) {
+      console.warn(`⚠️  Process did not exit within ${this.options.gracePeriod ?? 5000}ms, sending SIGKILL`);
+      child.kill('SIGKILL');
+      await exited;
+    }
+  }
+}
@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { generateDockerfile, generateDockerignore } from './docker.js';
+
+const baseDir = mkdtempSync(join(tmpdir(), 'backbundle-docker-'));
+writeFileSync(join(baseDir, 'package.json'), JSON.stringify({ scripts: { build: 'backbundle build' } }));
+writeFileSync(join(baseDir, 'pnpm-lock.yaml'), '');
+after(() => {
+  rmSync(baseDir, { recursive: true, force: true });
+});
+
+/**
+ * Get the CMD instruction of the Dockerfile generated for a configuration
+ */
+function getCommand(config: Parameters<typeof generateDockerfile>[0]['config']): string | undefined {
+  return generateDockerfile({ baseDir, config }).trimEnd().split('\n').at(-1);
+}
+
+describe('generateDockerfile', () => {
+  it('generates a multi-stage Dockerfile', () => {
+    const dockerfile = generateDockerfile({
+      baseDir,
+      config: {
+        entry: join(baseDir, 'src/index.ts'),
+        output: join(baseDir, 'dist/index.js'),
+        target: 'node20',
+        preset: 'express',
+        sourcemap: true,
+      },
+      nativePackages: ['sharp'],
+    });
+
+    assert.equal(dockerfile, `# syntax=docker/dockerfile:1
+# Generated by backbundle
+# Preset: express
+# Native packages: sharp
+
+# ---- Build stage ----
+FROM node:20-bookworm-slim AS build
+WORKDIR /app
+# Toolchain for native packages without prebuilt binaries
+RUN apt-get update && apt-get install -y --no-install-recommends python3 make g++ && rm -rf /var/lib/apt/lists/*
+COPY package.json pnpm-lock.yaml ./
+RUN corepack enable && pnpm install --frozen-lockfile
+COPY . .
+RUN pnpm run build --package-json
+# Install only the external packages the bundle imports
+RUN cd dist && if [ -f package-lock.json ]; then npm ci --omit=dev; else npm install --omit=dev; fi
+
+# ---- Runtime stage ----
+FROM node:20-bookworm-slim AS runtime
+WORKDIR /app
+ENV NODE_ENV=production
+COPY --from=build --chown=node:node /app/dist ./
+USER node
+ENV PORT=3000
+EXPOSE 3000
+CMD ["node", "--enable-source-maps", "index.js"]
+`);
+  });
+
+  it('runs the first entry point at its path below the common directory of the entries', () => {
+    assert.equal(getCommand({
+      entry: [join(baseDir, 'src/a/index.ts'), join(baseDir, 'src/b/index.ts')],
+      output: join(baseDir, 'dist'),
+    }), 'CMD ["node", "a/index.js"]');
+  });
+
+  it('runs named entry points under their name', () => {
+    assert.equal(getCommand({
+      entry: { 'api/server': join(baseDir, 'src/api.ts') },
+      output: join(baseDir, 'dist'),
+    }), 'CMD ["node", "api/server.js"]');
+  });
+
+  it('uses the output extension of the build', () => {
+    assert.equal(getCommand({
+      entry: [join(baseDir, 'src/a.ts'), join(baseDir, 'src/b.ts')],
+      output: join(baseDir, 'dist'),
+      esbuildOptions: { outExtension: { '.js': '.mjs' } },
+    }), 'CMD ["node", "a.mjs"]');
+    assert.equal(getCommand({
+      entry: join(baseDir, 'src/index.ts'),
+      output: join(baseDir, 'dist/server.cjs'),
+      format: 'esm',
+      splitting: true,
+    }), 'CMD ["node", "server.cjs"]');
+  });
+});
+
+describe('generateDockerignore', () => {
+  it('ignores dependencies, the output directory and local files', () => {
+    const dockerignore = generateDockerignore({
+      baseDir,
+      config: { entry: join(baseDir, 'src/index.ts'), output: join(baseDir, 'dist/index.js') },
+    });
+
+    assert.equal(dockerignore, `# Generated by backbundle
+node_modules
+**/node_modules
+dist
+.git
+.gitignore
+# .env files stay out of the image, the build inside Docker only inlines variables from its environment
+.env
+.env.*
+*.log
+coverage
+.vscode
+.idea
+Dockerfile
+.dockerignore
+`);
+  });
+});
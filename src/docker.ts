@@ -0,0 +1,274 @@
+import { existsSync, readFileSync } from 'fs';
+import { basename, dirname, extname, join, relative, resolve } from 'path';
+import { parseBinaryTarget } from './binary-handler.js';
+import { getEntryOptions, getOutputDir } from './bundler.js';
+import type { BackbundleConfig } from './types.js';
+
+/**
+ * Package managers the generated Dockerfile can install dependencies with
+ */
+export type PackageManager = 'npm' | 'pnpm' | 'yarn';
+
+/**
+ * Options for generating Docker files
+ */
+export interface DockerOptions {
+  /** Resolved build configuration */
+  config: BackbundleConfig;
+
+  /** Project root, defaults to process.cwd() */
+  baseDir?: string;
+
+  /** Native packages detected in node_modules */
+  nativePackages?: string[];
+
+  /** Package manager used to install the project dependencies, detected from lockfiles by default */
+  packageManager?: PackageManager;
+
+  /** Path to the config file, forwarded to the build command */
+  configFile?: string | null;
+
+  /** Port to expose, defaults to the preset's default port */
+  port?: number;
+}
+
+/**
+ * Default ports of the framework presets
+ */
+const PRESET_PORTS: Record<string, number> = {
+  nestjs: 3000,
+  express: 3000,
+  koa: 3000,
+  fastify: 3000,
+};
+
+/**
+ * Lockfiles of the supported package managers
+ */
+const LOCKFILES: { file: string; manager: PackageManager }[] = [
+  { file: 'pnpm-lock.yaml', manager: 'pnpm' },
+  { file: 'yarn.lock', manager: 'yarn' },
+  { file: 'package-lock.json', manager: 'npm' },
+  { file: 'npm-shrinkwrap.json', manager: 'npm' },
+];
+
+/**
+ * Get the Node.js major version from an esbuild target such as "node18" or "node20.11"
+ */
+export function getNodeVersion(target: string = 'node18'): string {
+  const match = /node(\d+)/.exec(target);
+  return match ? match[1] : '18';
+}
+
+/**
+ * Detect the package manager from the lockfile in the project root
+ */
+export function detectPackageManager(baseDir: string = process.cwd()): { manager: PackageManager; lockfile: string | null } {
+  for (const { file, manager } of LOCKFILES) {
+    if (existsSync(join(baseDir, file))) {
+      return { manager, lockfile: file };
+    }
+  }
+  return { manager: 'npm', lockfile: null };
+}
+
+/**
+ * Get the base image for a Node.js version, using musl (Alpine) unless native packages require glibc.
+ * A libc set by the binary target takes precedence.
+ */
+export function getBaseImage(nodeVersion: string, nativePackages: string[] = [], libc?: 'glibc' | 'musl'): string {
+  const musl = libc ? libc === 'musl' : nativePackages.length === 0;
+  return musl
+    ? `node:${nodeVersion}-alpine`
+    : `node:${nodeVersion}-bookworm-slim`;
+}
+
+/**
+ * Get the libc of the configured binary target, if any
+ */
+export function getTargetLibc(config: BackbundleConfig): 'glibc' | 'musl' | undefined {
+  const target = config.binaryPackages?.target;
+  return target ? parseBinaryTarget(target).libc : undefined;
+}
+
+/**
+ * Check whether the project has a build script that runs backbundle
+ */
+function hasBackbundleBuildScript(baseDir: string): boolean {
+  try {
+    const parsed: unknown = JSON.parse(readFileSync(join(baseDir, 'package.json'), 'utf-8'));
+    if (typeof parsed !== 'object' || parsed === null || !('scripts' in parsed)) return false;
+
+    const scripts = parsed.scripts;
+    return typeof scripts === 'object' && scripts !== null && 'build' in scripts &&
+      typeof scripts.build === 'string' && scripts.build.includes('backbundle');
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert a relative path to forward slashes for use in Dockerfile instructions
+ */
+function toPosixPath(filePath: string): string {
+  return filePath.replace(/\\/g, '/') || '.';
+}
+
+/**
+ * Get the deepest directory containing all the files, the outbase esbuild uses by default
+ */
+function getCommonDirectory(files: string[]): string {
+  return files.map(dirname).reduce((common, directory) => {
+    while (relative(common, directory).startsWith('..') && dirname(common) !== common) {
+      common = dirname(common);
+    }
+    return common;
+  });
+}
+
+/**
+ * Get the output file the container runs, the first entry point when there are several.
+ * Follows esbuild's naming: entries keep their path below the outbase and use the configured output extension.
+ */
+function getMainOutputFile(config: BackbundleConfig, baseDir: string): string {
+  const options = { ...getEntryOptions(config), ...config.esbuildOptions };
+  const outputDir = getOutputDir(config);
+  if (options.outfile) {
+    return toPosixPath(relative(resolve(baseDir, outputDir), resolve(baseDir, options.outfile)));
+  }
+
+  const extension = options.outExtension?.['.js'] || '.js';
+  if (Array.isArray(options.entryPoints)) {
+    const [first] = options.entryPoints;
+    if (first === undefined) return `index${extension}`;
+    if (typeof first !== 'string') return `${first.out}${extension}`;
+
+    const files = options.entryPoints.map(entry => resolve(baseDir, typeof entry === 'string' ? entry : entry.in));
+
+    const outbase = options.outbase ? resolve(baseDir, options.outbase) : getCommonDirectory(files);
+    const file = relative(outbase, files[0]);
+    return toPosixPath(join(dirname(file), basename(file, extname(file)) + extension));
+  }
+
+  const [first] = Object.keys(options.entryPoints || {});
+  return `${first || 'index'}${extension}`;
+}
+
+/**
+ * Generate a multi-stage Dockerfile for the bundle
+ */
+export function generateDockerfile(options: DockerOptions): string {
+  const { config } = options;
+  const baseDir = options.baseDir || process.cwd();
+  const nativePackages = options.nativePackages || [];
+  const nodeVersion = getNodeVersion(config.target);
+  const baseImage = getBaseImage(nodeVersion, nativePackages, getTargetLibc(config));
+  const detected = detectPackageManager(baseDir);
+  const packageManager = options.packageManager || detected.manager;
+  const port = options.port ?? (config.preset ? PRESET_PORTS[config.preset] : undefined);
+
+  const outputDir = toPosixPath(relative(baseDir, getOutputDir(config)));
+  const outputFile = getMainOutputFile(config, baseDir);
+
+  // Install commands for the project dependencies in the build stage
+  const manifests = ['package.json', ...(detected.lockfile ? [detected.lockfile] : [])];
+  const installCommands: Record<PackageManager, string> = {
+    npm: detected.lockfile ? 'npm ci' : 'npm install',
+    pnpm: 'corepack enable && pnpm install --frozen-lockfile',
+    yarn: 'corepack enable && yarn install --frozen-lockfile',
+  };
+
+  // Build command, reusing the project's build script when it runs backbundle
+  const buildFlags = config.standalone ? [] : ['--package-json'];
+  let buildCommand: string;
+  if (hasBackbundleBuildScript(baseDir)) {
+    // npm needs "--" to forward flags to the script, pnpm and yarn forward them directly
+    const separator = packageManager === 'npm' ? ' --' : '';
+    const flags = buildFlags.length > 0 ? `${separator} ${buildFlags.join(' ')}` : '';
+    buildCommand = `${packageManager} run build${flags}`;
+  } else {
+    const configFlag = options.configFile ? ` -c ${toPosixPath(relative(baseDir, options.configFile))}` : '';
+    buildCommand = `npx backbundle build${configFlag}${buildFlags.map(flag => ` ${flag}`).join('')}`;
+  }
+
+  const lines: string[] = [
+    '# syntax=docker/dockerfile:1',
+    '# Generated by backbundle',
+    `# Preset: ${config.preset || 'generic'}`,
+    `# Native packages: ${nativePackages.length > 0 ? nativePackages.join(', ') : 'none'}`,
+    '',
+    '# ---- Build stage ----',
+    `FROM ${baseImage} AS build`,
+    'WORKDIR /app',
+  ];
+
+  if (nativePackages.length > 0) {
+    lines.push(
+      '# Toolchain for native packages without prebuilt binaries',
+      baseImage.endsWith('-alpine')
+        ? 'RUN apk add --no-cache python3 make g++'
+        : 'RUN apt-get update && apt-get install -y --no-install-recommends python3 make g++ && rm -rf /var/lib/apt/lists/*'
+    );
+  }
+
+  lines.push(
+    `COPY ${manifests.join(' ')} ./`,
+    `RUN ${installCommands[packageManager]}`,
+    'COPY . .',
+    `RUN ${buildCommand}`
+  );
+
+  if (!config.standalone) {
+    lines.push(
+      '# Install only the external packages the bundle imports',
+      `RUN cd ${outputDir} && if [ -f package-lock.json ]; then npm ci --omit=dev; else npm install --omit=dev; fi`
+    );
+  }
+
+  lines.push(
+    '',
+    '# ---- Runtime stage ----',
+    `FROM ${baseImage} AS runtime`,
+    'WORKDIR /app',
+    'ENV NODE_ENV=production',
+    `COPY --from=build --chown=node:node /app/${outputDir} ./`,
+    'USER node'
+  );
+
+  if (port !== undefined) {
+    lines.push(`ENV PORT=${port}`, `EXPOSE ${port}`);
+  }
+
+  const nodeArgs = config.sourcemap ? ['"--enable-source-maps"'] : [];
+  lines.push(`CMD ["node", ${[...nodeArgs, `"${outputFile}"`].join(', ')}]`);
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Generate a .dockerignore for the project
+ */
+export function generateDockerignore(options: DockerOptions): string {
+  const baseDir = options.baseDir || process.cwd();
+  const outputDir = toPosixPath(relative(baseDir, getOutputDir(options.config)));
+
+  const entries = [
+    '# Generated by backbundle',
+    'node_modules',
+    '**/node_modules',
+    ...(outputDir !== '.' && !outputDir.startsWith('..') ? [outputDir] : []),
+    '.git',
+    '.gitignore',
+    '# .env files stay out of the image, the build inside Docker only inlines variables from its environment',
+    '.env',
+    '.env.*',
+    '*.log',
+    'coverage',
+    '.vscode',
+    '.idea',
+    'Dockerfile',
+    '.dockerignore',
+  ];
+
+  return entries.join('\n') + '\n';
+}
@@ -0,0 +1,57 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { getEnvDefines, parseEnvFile } from './env.js';
+
+describe('parseEnvFile', () => {
+  it('parses unquoted values and skips comments and blank lines', () => {
+    const contents = [
+      '# Database',
+      'DB_HOST=localhost',
+      '',
+      'DB_PORT = 5432 # default port',
+      'export API_URL=https://example.com/api?a=1',
+    ].join('\n');
+
+    assert.deepEqual(parseEnvFile(contents), {
+      DB_HOST: 'localhost',
+      DB_PORT: '5432',
+      API_URL: 'https://example.com/api?a=1',
+    });
+  });
+
+  it('unquotes values and expands escapes in double quotes only', () => {
+    const contents = [
+      'DOUBLE="line\\nbreak # not a comment"',
+      "SINGLE='line\\nbreak'",
+      'BACKTICK=`a "quoted" value`',
+    ].join('\n');
+
+    assert.deepEqual(parseEnvFile(contents), {
+      DOUBLE: 'line\nbreak # not a comment',
+      SINGLE: 'line\\nbreak',
+      BACKTICK: 'a "quoted" value',
+    });
+  });
+
+  it('accepts empty values and Windows line endings', () => {
+    assert.deepEqual(parseEnvFile('EMPTY=\r\nNEXT=1\r\n'), { EMPTY: '', NEXT: '1' });
+  });
+
+  it('lets later lines override earlier ones', () => {
+    assert.deepEqual(parseEnvFile('KEY=first\nKEY=second'), { KEY: 'second' });
+  });
+});
+
+describe('getEnvDefines', () => {
+  it('inlines the variables with the env prefix as process.env defines', () => {
+    assert.deepEqual(getEnvDefines({ BACKBUNDLE_API_URL: 'https://example.com', APP_NAME: 'api', SECRET: 'x' }, ['BACKBUNDLE_', 'APP_']), {
+      'process.env.APP_NAME': '"api"',
+      'process.env.BACKBUNDLE_API_URL': '"https://example.com"',
+    });
+  });
+
+  it('rejects empty prefixes that would inline the whole environment', () => {
+    assert.throws(() => getEnvDefines({ SECRET: 'x' }, ''), /envPrefix must not be empty/);
+    assert.throws(() => getEnvDefines({ SECRET: 'x' }, ['APP_', '']), /envPrefix must not be empty/);
+  });
+});
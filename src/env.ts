@@ -0,0 +1,110 @@
+import { existsSync, readFileSync } from 'fs';
+import { resolve } from 'path';
+import type { BackbundleConfig } from './types.js';
+
+/**
+ * Prefix of the environment variables inlined by default
+ */
+export const DEFAULT_ENV_PREFIX = 'BACKBUNDLE_';
+
+/**
+ * A line of a .env file: KEY=value, KEY="value", KEY='value' or KEY=`value`, optionally after `export`
+ */
+const ENV_LINE = /^\s*(?:export\s+)?([\w.-]+)\s*=[ \t]*('(?:\\'|[^'])*'|"(?:\\"|[^"])*"|`(?:\\`|[^`])*`|[^#\r\n]*)?[ \t]*(?:#.*)?$/gm;
+
+/**
+ * Parse the contents of a .env file
+ */
+export function parseEnvFile(contents: string): Record<string, string> {
+  const variables: Record<string, string> = {};
+
+  for (const match of contents.replace(/\r\n?/g, '\n').matchAll(ENV_LINE)) {
+    const [, key, raw = ''] = match;
+    let value = raw.trim();
+    const quote = value[0];
+
+    if ((quote === '"' || quote === "'" || quote === '`') && value.endsWith(quote)) {
+      value = value.slice(1, -1);
+      // Double-quoted values support escaped line breaks
+      if (quote === '"') {
+        value = value.replace(/\\n/g, '\n').replace(/\\r/g, '\r').replace(/\\t/g, '\t').replace(/\\(["\\])/g, '$1');
+      }
+    }
+
+    variables[key] = value;
+  }
+
+  return variables;
+}
+
+/**
+ * Get the .env files to load for a mode: each base file followed by its `.local`, `.<mode>` and
+ * `.<mode>.local` variants, later files taking precedence
+ */
+export function getEnvFiles(envFile: string | string[] = '.env', mode?: string): string[] {
+  const baseFiles = Array.isArray(envFile) ? envFile : [envFile];
+
+  return baseFiles.flatMap(file => [
+    file,
+    `${file}.local`,
+    ...(mode ? [`${file}.${mode}`, `${file}.${mode}.local`] : []),
+  ]);
+}
+
+/**
+ * Load the environment variables for a configuration from its .env files and the process environment.
+ * Variables already set in the process environment are not overridden by .env files.
+ */
+export function loadEnv(
+  config: Pick<BackbundleConfig, 'envFile' | 'mode'>,
+  baseDir: string = process.cwd(),
+  processEnv: Record<string, string | undefined> = process.env
+): Record<string, string> {
+  const variables: Record<string, string> = {};
+  const baseFiles = config.envFile === undefined ? [] : Array.isArray(config.envFile) ? config.envFile : [config.envFile];
+
+  for (const file of getEnvFiles(config.envFile, config.mode)) {
+    const filePath = resolve(baseDir, file);
+    if (!existsSync(filePath)) {
+      // Explicitly configured files must exist, mode and local variants are optional
+      if (baseFiles.includes(file)) {
+        throw new Error(`Environment file not found: ${filePath}`);
+      }
+      continue;
+    }
+
+    Object.assign(variables, parseEnvFile(readFileSync(filePath, 'utf-8')));
+  }
+
+  for (const [key, value] of Object.entries(processEnv)) {
+    if (value !== undefined) {
+      variables[key] = value;
+    }
+  }
+
+  return variables;
+}
+
+/**
+ * Get `process.env.X` defines for the variables matching the configured prefixes
+ */
+export function getEnvDefines(
+  variables: Record<string, string>,
+  envPrefix: string | string[] = DEFAULT_ENV_PREFIX
+): Record<string, string> {
+  const prefixes = Array.isArray(envPrefix) ? envPrefix : [envPrefix];
+  const defines: Record<string, string> = {};
+
+  // An empty prefix matches every variable, inlining secrets from the whole environment
+  if (prefixes.some(prefix => prefix === '')) {
+    throw new Error('envPrefix must not be empty, as it would inline every environment variable into the bundle');
+  }
+
+  for (const key of Object.keys(variables).sort((a, b) => a.localeCompare(b))) {
+    if (/^[A-Za-z_$][\w$]*$/.test(key) && prefixes.some(prefix => key.startsWith(prefix))) {
+      defines[`process.env.${key}`] = JSON.stringify(variables[key]);
+    }
+  }
+
+  return defines;
+}
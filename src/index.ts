@@ -4,9 +4,36 @@
  * Main entry point for the library API
  */
 
-export { bundle, Bundler, detectEntryPoint, detectFramework } from './bundler.js';
-export { FRAMEWORK_PRESETS, getPreset, listPresets, NODE_BUILTINS } from './presets.js';
-export type { BackbundleConfig, BundleResult, FrameworkPreset } from './types.js';
+export { analyzeMetafile, getPackageName } from './analyzer.js';
+export type { AnalyzeOptions, BundleAnalysis, SizeEntry } from './analyzer.js';
+export { ASSET_MANIFEST_FILE, AssetManifest, writeAssetManifest } from './asset-manifest.js';
+export type { AssetManifestData } from './asset-manifest.js';
+export { applyPackageRecipe, filterBinaryFiles, formatBinaryTarget, matchesBinaryTarget, parseBinaryTarget } from './binary-handler.js';
+export type { BinaryTarget } from './binary-handler.js';
+export { bundle, Bundler, detectEntryPoint, detectFramework, getOutputDir, isMultiEntry } from './bundler.js';
+export { assertValidConfig, CONFIG_SCHEMA, ConfigValidationError, suggestClosest, validateConfig } from './config-schema.js';
+export type { ConfigIssue, JsonSchema } from './config-schema.js';
+export { deepMergeConfig, defineConfig } from './config.js';
+export { DevServer } from './dev-server.js';
+export type { DevServerOptions } from './dev-server.js';
+export { detectPackageManager, generateDockerfile, generateDockerignore, getBaseImage, getNodeVersion, getTargetLibc } from './docker.js';
+export type { DockerOptions, PackageManager } from './docker.js';
+export { DEFAULT_ENV_PREFIX, getEnvDefines, getEnvFiles, loadEnv, parseEnvFile } from './env.js';
+export { addBuildScript, BUILD_SCRIPT, detectProject, generateConfigFile, getInitConfigFile, INIT_CONFIG_FILES, readPackageInfo } from './init.js';
+export type { ProjectDetection } from './init.js';
+export { collectExternalPackages, generateDeployPackage, getImportPackageName, getInstalledVersion, pruneLockfile, writeDeployPackage } from './package-manifest.js';
+export type { DeployPackage } from './package-manifest.js';
+export { definePreset, findPresetPackages, FRAMEWORK_PRESETS, getPreset, isPresetPackage, listPresets, loadPresetPackage, loadPresetPackages, NODE_BUILTINS, registerPreset, resolvePreset } from './presets.js';
+export { BUILTIN_RECIPES, createRecipeEnvBanner, getRecipe, getRecipes } from './recipes.js';
+export { collectExternalImports, createStandaloneOutput, removeGeneratedNodeModules, StandaloneTracer } from './standalone.js';
+export type { StandaloneResult } from './standalone.js';
+export { buildTreemap, generateTreemapHtml, writeTreemapReport } from './treemap.js';
+export type { TreemapNode, TreemapOptions } from './treemap.js';
+export type { BackbundleConfig, BundleOutput, BundleResult, ConfigEnv, EntryPoints, FrameworkPreset, PackageRecipe, UserConfig, UserConfigExport, UserConfigFn } from './types.js';
+export { BundleWatcher, watchBundle } from './watcher.js';
+export type { WatchChange, WatchOptions, WatchTrigger } from './watcher.js';
+export { findWorkspacePackages, findWorkspaceRoot, getWorkspaceEntry, parsePnpmWorkspace } from './workspace.js';
+export type { WorkspacePackage } from './workspace.js';
 
 /**
  * Default export for convenience
@@ -0,0 +1,106 @@
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { addBuildScript, detectProject, generateConfigFile, getInitConfigFile } from './init.js';
+
+const root = mkdtempSync(join(tmpdir(), 'backbundle-init-'));
+after(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+function writeFile(file: string, contents: string): void {
+  mkdirSync(dirname(join(root, file)), { recursive: true });
+  writeFileSync(join(root, file), contents);
+}
+
+describe('detectProject', () => {
+  writeFile('package.json', JSON.stringify({ dependencies: { express: '^4.0.0' } }, null, 4));
+  writeFile('src/index.ts', '');
+  writeFile('node_modules/addon/package.json', '{}');
+  writeFile('node_modules/addon/build/Release/addon.node', '');
+  writeFile('node_modules/sharp/package.json', '{}');
+  writeFile('node_modules/@img/sharp-linux-x64/package.json', '{}');
+  writeFile('node_modules/@img/sharp-linux-x64/lib/sharp-linux-x64.node', '');
+  writeFile('node_modules/@prisma/client/package.json', '{}');
+
+  it('detects the entry point, preset and native packages', (t) => {
+    const log = t.mock.method(console, 'log', () => undefined);
+
+    assert.deepEqual(detectProject(root), {
+      entry: 'src/index.ts',
+      output: 'dist/index.js',
+      preset: 'express',
+      nativePackages: ['addon', 'sharp'],
+      wasmPackages: [],
+      configFile: 'backbundle.config.mjs',
+    });
+    assert.equal(log.mock.callCount(), 0);
+  });
+});
+
+describe('getInitConfigFile', () => {
+  it('writes a TypeScript config only when the project can load it', () => {
+    assert.equal(getInitConfigFile(['express']), 'backbundle.config.mjs');
+    assert.equal(getInitConfigFile(['express', 'tsx']), 'backbundle.config.ts');
+    assert.equal(getInitConfigFile(['typescript']), 'backbundle.config.ts');
+  });
+});
+
+describe('generateConfigFile', () => {
+  it('writes a commented configuration for the detected project', () => {
+    const contents = generateConfigFile({
+      entry: 'src/main.ts',
+      output: 'dist/main.js',
+      preset: 'nestjs',
+      nativePackages: ['bcrypt'],
+      wasmPackages: ['@swc/wasm'],
+      configFile: 'backbundle.config.ts',
+    });
+
+    assert.equal(contents, `import { defineConfig } from 'backbundle';
+
+export default defineConfig({
+  // Framework preset: nestjs, express, koa, fastify or generic
+  preset: 'nestjs',
+
+  // Application entry point
+  entry: 'src/main.ts',
+
+  // Bundle file, written together with copied binaries and assets
+  output: 'dist/main.js',
+
+  // Native addons found in node_modules: bcrypt.
+  // Their prebuilt binaries are copied next to the bundle and the addon loaders are rewritten to load
+  // the copies. Set target to build for another platform, e.g. 'linux-x64-musl' for Alpine images.
+  binaryPackages: {
+    strategy: 'copy',
+  },
+
+  // WebAssembly packages found in node_modules: the .wasm files are copied next to the bundle.
+  // Use 'inline' to embed them in the bundle instead.
+  wasmPackages: {
+    strategy: 'copy',
+    packages: ['@swc/wasm'],
+  },
+});
+`);
+  });
+});
+
+describe('addBuildScript', () => {
+  it('adds the build script keeping the indentation of package.json', () => {
+    addBuildScript(root);
+
+    assert.equal(readFileSync(join(root, 'package.json'), 'utf-8'), `{
+    "dependencies": {
+        "express": "^4.0.0"
+    },
+    "scripts": {
+        "build": "backbundle build"
+    }
+}
+`);
+  });
+});
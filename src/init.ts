@@ -0,0 +1,169 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { basename, extname, join, relative, sep } from 'path';
+import { AssetHandler } from './asset-handler.js';
+import { detectBinaryPackages } from './binary-handler.js';
+import { detectEntryPoint, detectFramework } from './bundler.js';
+
+/**
+ * What `backbundle init` found in a project
+ */
+export interface ProjectDetection {
+  /** Entry point relative to the project root, if one was found */
+  entry: string | null;
+
+  /** Output file relative to the project root */
+  output: string;
+
+  /** Detected framework preset */
+  preset: string;
+
+  /** Packages with native addons in node_modules */
+  nativePackages: string[];
+
+  /** Packages with WebAssembly modules in node_modules */
+  wasmPackages: string[];
+
+  /** Config file to write, TypeScript only when the project can load it */
+  configFile: string;
+}
+
+/**
+ * Config files written by `backbundle init`: TypeScript configs are loaded through tsx,
+ * so projects without TypeScript get an ES module instead
+ */
+export const INIT_CONFIG_FILES = ['backbundle.config.ts', 'backbundle.config.mjs'];
+
+/**
+ * Build script added to package.json
+ */
+export const BUILD_SCRIPT = 'backbundle build';
+
+function toPosixPath(path: string): string {
+  return path.split(sep).join('/');
+}
+
+/**
+ * Detect the entry point, framework and native and WASM packages of a project
+ */
+export function detectProject(baseDir: string = process.cwd()): ProjectDetection {
+  const entryPath = detectEntryPoint(baseDir);
+  const entry = entryPath ? toPosixPath(relative(baseDir, entryPath)) : null;
+  const output = `dist/${entry ? basename(entry, extname(entry)) : 'index'}.js`;
+
+  const nodeModulesPath = join(baseDir, 'node_modules');
+  let nativePackages: string[] = [];
+  let wasmPackages: string[] = [];
+
+  if (existsSync(nodeModulesPath)) {
+    nativePackages = detectBinaryPackages({ entry: entry || '', output }, nodeModulesPath);
+
+    wasmPackages = new AssetHandler({ entry: entry || '', output }, join(baseDir, 'dist')).detectWasmPackages(baseDir);
+  }
+
+  return {
+    entry,
+    output,
+    preset: detectFramework(baseDir) || 'generic',
+    nativePackages: nativePackages.sort((a, b) => a.localeCompare(b)),
+    wasmPackages: wasmPackages.sort((a, b) => a.localeCompare(b)),
+    configFile: getInitConfigFile(readPackageInfo(baseDir)?.dependencies || []),
+  };
+}
+
+/**
+ * Get the config file to write for the project's dependencies
+ */
+export function getInitConfigFile(dependencies: string[]): string {
+  const [typescriptConfig, moduleConfig] = INIT_CONFIG_FILES;
+  return dependencies.includes('tsx') || dependencies.includes('typescript') ? typescriptConfig : moduleConfig;
+}
+
+/**
+ * Generate a commented config file for the detected project, valid as both TypeScript and JavaScript
+ */
+export function generateConfigFile(project: ProjectDetection): string {
+  const list = (packages: string[]) => `[${packages.map(name => `'${name}'`).join(', ')}]`;
+
+  const lines = [
+    `import { defineConfig } from 'backbundle';`,
+    '',
+    `export default defineConfig({`,
+    `  // Framework preset: nestjs, express, koa, fastify or generic`,
+    `  preset: '${project.preset}',`,
+    '',
+    project.entry
+      ? `  // Application entry point`
+      : `  // Application entry point (none of src/main, src/index or src/app was found)`,
+    `  entry: '${project.entry || 'src/index.ts'}',`,
+    '',
+    `  // Bundle file, written together with copied binaries and assets`,
+    `  output: '${project.output}',`,
+  ];
+
+  if (project.nativePackages.length > 0) {
+    lines.push(
+      '',
+      `  // Native addons found in node_modules: ${project.nativePackages.join(', ')}.`,
+      `  // Their prebuilt binaries are copied next to the bundle and the addon loaders are rewritten to load`,
+      `  // the copies. Set target to build for another platform, e.g. 'linux-x64-musl' for Alpine images.`,
+      `  binaryPackages: {`,
+      `    strategy: 'copy',`,
+      `  },`
+    );
+  }
+
+  if (project.wasmPackages.length > 0) {
+    lines.push(
+      '',
+      `  // WebAssembly packages found in node_modules: the .wasm files are copied next to the bundle.`,
+      `  // Use 'inline' to embed them in the bundle instead.`,
+      `  wasmPackages: {`,
+      `    strategy: 'copy',`,
+      `    packages: ${list(project.wasmPackages)},`,
+      `  },`
+    );
+  }
+
+  lines.push(`});`, '');
+  return lines.join('\n');
+}
+
+/**
+ * Read the scripts and dependency names of the project's package.json, or null without a package.json
+ */
+export function readPackageInfo(baseDir: string = process.cwd()): { scripts: Record<string, string>; dependencies: string[] } | null {
+  const packageJsonPath = join(baseDir, 'package.json');
+  if (!existsSync(packageJsonPath)) return null;
+
+  const packageJson: unknown = JSON.parse(readFileSync(packageJsonPath, 'utf-8'));
+  if (typeof packageJson !== 'object' || packageJson === null) return null;
+
+  const record = (key: string): Record<string, unknown> => {
+    const value: unknown = key in packageJson ? Reflect.get(packageJson, key) : undefined;
+    return typeof value === 'object' && value !== null ? { ...value } : {};
+  };
+
+  return {
+    scripts: Object.fromEntries(
+      Object.entries(record('scripts')).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    ),
+    dependencies: [...Object.keys(record('dependencies')), ...Object.keys(record('devDependencies'))],
+  };
+}
+
+/**
+ * Add the build script to package.json, keeping the file's indentation
+ */
+export function addBuildScript(baseDir: string = process.cwd(), script: string = BUILD_SCRIPT): void {
+  const packageJsonPath = join(baseDir, 'package.json');
+  const contents = readFileSync(packageJsonPath, 'utf-8');
+  const packageJson: unknown = JSON.parse(contents);
+  if (typeof packageJson !== 'object' || packageJson === null) {
+    throw new Error('Invalid package.json format');
+  }
+
+  const indent = /^[ \t]+/m.exec(contents)?.[0] || '  ';
+  const scripts = 'scripts' in packageJson && typeof packageJson.scripts === 'object' ? packageJson.scripts : {};
+  const updated = { ...packageJson, scripts: { ...scripts, build: script } };
+  writeFileSync(packageJsonPath, JSON.stringify(updated, null, indent) + '\n');
+}
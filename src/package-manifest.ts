@@ -0,0 +1,339 @@
+import type { Metafile } from 'esbuild';
+import { existsSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { builtinModules } from 'module';
+import { basename, dirname, join, relative, resolve } from 'path';
+import { NODE_BUILTINS } from './presets.js';
+import type { BackbundleConfig } from './types.js';
+
+/**
+ * Minimal shape of a package.json file
+ */
+interface PackageJson {
+  name?: string;
+  version?: string;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  engines?: Record<string, string>;
+}
+
+/**
+ * Entry of the "packages" section of an npm lockfile (v2/v3)
+ */
+interface LockfilePackage {
+  version?: string;
+  dependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  dev?: boolean;
+  devOptional?: boolean;
+  [key: string]: unknown;
+}
+
+/**
+ * npm lockfile (v2/v3)
+ */
+interface Lockfile {
+  name?: string;
+  version?: string;
+  lockfileVersion: number;
+  requires?: boolean;
+  packages: Record<string, LockfilePackage>;
+}
+
+/**
+ * Result of generating the deployment package.json
+ */
+export interface DeployPackage {
+  /** Generated package.json contents */
+  packageJson: Record<string, unknown>;
+
+  /** Pruned npm lockfile, if a package-lock.json was found */
+  lockfile?: Lockfile;
+
+  /** Installed versions of the external packages the bundle imports */
+  dependencies: Record<string, string>;
+
+  /** External packages the bundle imports that are not installed */
+  missing: string[];
+
+  /** Why no lockfile was generated although the project has one */
+  lockfileWarning?: string;
+}
+
+/**
+ * npm lockfile names, in order of preference
+ */
+const LOCKFILE_NAMES = ['npm-shrinkwrap.json', 'package-lock.json'];
+
+/**
+ * Lockfiles of other package managers, which cannot be pruned
+ */
+const UNSUPPORTED_LOCKFILE_NAMES = ['pnpm-lock.yaml', 'yarn.lock', 'bun.lock', 'bun.lockb'];
+
+function isPackageJson(obj: unknown): obj is PackageJson {
+  return typeof obj === 'object' && obj !== null;
+}
+
+function isLockfile(obj: unknown): obj is Lockfile {
+  return typeof obj === 'object' && obj !== null &&
+    'lockfileVersion' in obj && typeof obj.lockfileVersion === 'number' &&
+    'packages' in obj && typeof obj.packages === 'object' && obj.packages !== null;
+}
+
+/**
+ * Read and parse a JSON file, returning null if it does not exist or does not match the expected shape
+ */
+function readJson<T>(filePath: string, guard: (obj: unknown) => obj is T): T | null {
+  try {
+    const parsed: unknown = JSON.parse(readFileSync(filePath, 'utf-8'));
+    return guard(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Extract the package name from a bare import specifier, or null for builtins and paths
+ */
+export function getImportPackageName(specifier: string): string | null {
+  if (
+    specifier.startsWith('.') ||
+    specifier.startsWith('/') ||
+    specifier.startsWith('#') ||
+    specifier.startsWith('node:') ||
+    /^[a-z]:[\\/]/i.test(specifier)
+  ) {
+    return null;
+  }
+
+  const parts = specifier.split('/');
+  const name = specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+
+  if (NODE_BUILTINS.includes(name) || builtinModules.includes(name)) {
+    return null;
+  }
+  return name;
+}
+
+/**
+ * Collect the external packages imported by the bundle outputs
+ */
+export function collectExternalPackages(metafile: Metafile): string[] {
+  const packages = new Set<string>();
+
+  for (const output of Object.values(metafile.outputs)) {
+    for (const imported of output.imports) {
+      if (!imported.external) continue;
+
+      const packageName = getImportPackageName(imported.path);
+      if (packageName) {
+        packages.add(packageName);
+      }
+    }
+  }
+
+  return [...packages].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Find the installed version of a package by walking up node_modules directories
+ */
+export function getInstalledVersion(packageName: string, baseDir: string = process.cwd()): string | null {
+  let dir = resolve(baseDir);
+
+  while (true) {
+    const packageJson = readJson(join(dir, 'node_modules', packageName, 'package.json'), isPackageJson);
+    if (packageJson?.version) {
+      return packageJson.version;
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Find the nearest lockfile of any package manager from a directory upwards
+ */
+function findLockfile(baseDir: string): string | null {
+  let dir = resolve(baseDir);
+
+  while (true) {
+    for (const name of [...LOCKFILE_NAMES, ...UNSUPPORTED_LOCKFILE_NAMES]) {
+      const lockfilePath = join(dir, name);
+      if (existsSync(lockfilePath)) return lockfilePath;
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Resolve a dependency the way Node.js does, starting from the package at the given lockfile path
+ */
+function resolveLockfilePath(packages: Record<string, LockfilePackage>, fromPath: string, name: string): string | null {
+  let base = fromPath;
+
+  while (true) {
+    const candidate = base ? `${base}/node_modules/${name}` : `node_modules/${name}`;
+    if (packages[candidate]) return candidate;
+    if (!base) return null;
+
+    // Move up to the enclosing package, e.g. "node_modules/a/node_modules/b" -> "node_modules/a"
+    const index = base.lastIndexOf('/node_modules/');
+    base = index === -1 ? '' : base.slice(0, index);
+  }
+}
+
+/**
+ * Prune an npm lockfile down to the given dependencies and everything they depend on
+ */
+export function pruneLockfile(lockfile: Lockfile, dependencies: Record<string, string>, root: Record<string, unknown>): Lockfile | null {
+  const { packages } = lockfile;
+  const kept = new Set<string>();
+  const queue: string[] = [];
+
+  for (const name of Object.keys(dependencies)) {
+    const path = resolveLockfilePath(packages, '', name);
+    if (!path) return null;
+    queue.push(path);
+  }
+
+  while (queue.length > 0) {
+    const path = queue.shift()!;
+    if (kept.has(path)) continue;
+    kept.add(path);
+
+    const entry = packages[path];
+    const required = {
+      ...entry.peerDependencies,
+      ...entry.optionalDependencies,
+      ...entry.dependencies,
+    };
+
+    for (const name of Object.keys(required)) {
+      const resolved = resolveLockfilePath(packages, path, name);
+      if (resolved) {
+        queue.push(resolved);
+      } else if (entry.dependencies?.[name]) {
+        // A required dependency is missing from the lockfile, it cannot be trusted
+        return null;
+      }
+    }
+  }
+
+  const prunedPackages: Record<string, LockfilePackage> = { '': root };
+  for (const path of [...kept].sort((a, b) => a.localeCompare(b))) {
+    const { dev: _dev, devOptional: _devOptional, ...entry } = packages[path];
+    prunedPackages[path] = entry;
+  }
+
+  return {
+    name: typeof root.name === 'string' ? root.name : undefined,
+    version: typeof root.version === 'string' ? root.version : undefined,
+    lockfileVersion: 3,
+    requires: true,
+    packages: prunedPackages,
+  };
+}
+
+/**
+ * Generate a deployment package.json listing the external packages the bundle needs at runtime
+ */
+export function generateDeployPackage(
+  config: BackbundleConfig,
+  metafile: Metafile,
+  outputDir: string,
+  baseDir: string = process.cwd()
+): DeployPackage {
+  const projectPackage = readJson(join(baseDir, 'package.json'), isPackageJson) || {};
+  const dependencies: Record<string, string> = {};
+  const missing: string[] = [];
+
+  for (const packageName of collectExternalPackages(metafile)) {
+    const version = getInstalledVersion(packageName, baseDir);
+    if (version) {
+      dependencies[packageName] = version;
+    } else {
+      missing.push(packageName);
+    }
+  }
+
+  const packageJson: Record<string, unknown> = {
+    name: projectPackage.name || basename(resolve(baseDir)),
+    version: projectPackage.version || '0.0.0',
+    private: true,
+    type: config.format === 'esm' ? 'module' : 'commonjs',
+  };
+
+  if (typeof config.entry === 'string') {
+    packageJson.main = relative(outputDir, config.output).replace(/\\/g, '/');
+  }
+  if (projectPackage.engines) {
+    packageJson.engines = projectPackage.engines;
+  }
+  packageJson.dependencies = dependencies;
+
+  const includeLockfile = typeof config.packageJson !== 'object' || config.packageJson.lockfile !== false;
+  const lockfilePath = includeLockfile ? findLockfile(baseDir) : null;
+  let prunedLockfile: Lockfile | undefined;
+  let lockfileWarning: string | undefined;
+
+  if (lockfilePath && UNSUPPORTED_LOCKFILE_NAMES.includes(basename(lockfilePath))) {
+    lockfileWarning = `${basename(lockfilePath)} is not supported, only npm lockfiles can be pruned`;
+  } else if (lockfilePath) {
+    const lockfile = readJson(lockfilePath, isLockfile);
+    if (!lockfile || lockfile.lockfileVersion < 2) {
+      lockfileWarning = `${basename(lockfilePath)} must use lockfileVersion 2 or later`;
+    } else {
+      const root = {
+        name: packageJson.name,
+        version: packageJson.version,
+        dependencies,
+        ...(projectPackage.engines && { engines: projectPackage.engines }),
+      };
+      prunedLockfile = pruneLockfile(lockfile, dependencies, root) || undefined;
+      if (!prunedLockfile) {
+        lockfileWarning = `${basename(lockfilePath)} is missing packages the bundle depends on`;
+      }
+    }
+  }
+
+  return { packageJson, lockfile: prunedLockfile, dependencies, missing, lockfileWarning };
+}
+
+/**
+ * Write the deployment package.json (and pruned lockfile) next to the bundle
+ */
+export function writeDeployPackage(
+  config: BackbundleConfig,
+  metafile: Metafile,
+  outputDir: string,
+  baseDir: string = process.cwd()
+): DeployPackage {
+  const deployPackage = generateDeployPackage(config, metafile, outputDir, baseDir);
+
+  writeFileSync(join(outputDir, 'package.json'), JSON.stringify(deployPackage.packageJson, null, 2) + '\n', 'utf-8');
+
+  // Lockfiles left by an earlier build would no longer match the package.json
+  for (const name of LOCKFILE_NAMES) {
+    rmSync(join(outputDir, name), { force: true });
+  }
+
+  if (deployPackage.lockfile) {
+    writeFileSync(join(outputDir, 'package-lock.json'), JSON.stringify(deployPackage.lockfile, null, 2) + '\n', 'utf-8');
+  }
+
+  for (const packageName of deployPackage.missing) {
+    console.warn(`⚠️  External package is not installed, skipped in package.json: ${packageName}`);
+  }
+  if (deployPackage.lockfileWarning) {
+    console.warn(`⚠️  No lockfile generated: ${deployPackage.lockfileWarning}`);
+  }
+
+  return deployPackage;
+}
@@ -0,0 +1,67 @@
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { build } from 'esbuild';
+import { createAssetInlinePlugin } from './asset-inline.js';
+
+const root = mkdtempSync(join(tmpdir(), 'backbundle-asset-'));
+after(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+/**
+ * Bundle a module of a package that reads its data.txt, returning the output code
+ */
+async function bundlePackageModule(code: string): Promise<string> {
+  const packageDir = join(root, 'node_modules', 'pkg');
+  mkdirSync(packageDir, { recursive: true });
+  writeFileSync(join(packageDir, 'package.json'), JSON.stringify({ name: 'pkg', main: 'index.js' }));
+  writeFileSync(join(packageDir, 'data.txt'), 'embedded data');
+  writeFileSync(join(packageDir, 'index.js'), `const path = require('path');\nconst file = path.join(__dirname, 'data.txt');\n${code}`);
+
+  const result = await build({
+    entryPoints: [join(packageDir, 'index.js')],
+    bundle: true,
+    write: false,
+    platform: 'node',
+    logLevel: 'silent',
+    plugins: [createAssetInlinePlugin({ entry: join(packageDir, 'index.js'), output: join(root, 'dist/index.js'), assetPackages: { strategy: 'inline' } })],
+  });
+  return result.outputFiles[0].text;
+}
+
+describe('createAssetInlinePlugin', () => {
+  it('embeds promise-based reads of package assets', async () => {
+    const code = await bundlePackageModule([
+      "const fsp = require('fs/promises');",
+      "const { readFile } = require('fs/promises');",
+      "exports.a = fsp.readFile(file, 'utf8');",
+      "exports.b = readFile(file, { encoding: 'utf8' });",
+      "exports.c = require('fs').promises.readFile(file, 'utf8');",
+    ].join('\n'));
+
+    assert.equal(code.match(/Promise\.resolve\(/g)?.length, 3);
+    assert.doesNotMatch(code, /readFile\(/);
+  });
+
+  it('leaves callback reads alone', async () => {
+    const code = await bundlePackageModule([
+      "const fs2 = require('fs');",
+      "const { readFile } = require('fs');",
+      "require('fs/promises');",
+      'exports.a = (done) => fs2.readFile(file, done);',
+      'exports.b = (done) => readFile(file, done);',
+    ].join('\n'));
+
+    assert.doesNotMatch(code, /Promise\.resolve\(/);
+    assert.equal(code.match(/readFile\(file, done\)/g)?.length, 2);
+  });
+
+  it('leaves reads with options it cannot follow alone', async () => {
+    const code = await bundlePackageModule("const fsp = require('fs/promises');\nexports.read = (options) => fsp.readFile(file, options);");
+
+    assert.doesNotMatch(code, /Promise\.resolve\(/);
+  });
+});
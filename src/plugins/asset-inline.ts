@@ -0,0 +1,172 @@
+import type { Plugin } from 'esbuild';
+import { existsSync, readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { dirname, extname, isAbsolute, relative, resolve } from 'path';
+import type { BackbundleConfig } from '../types.js';
+import {
+  addSourceTransform,
+  applyReplacements,
+  collectPathVariables,
+  evaluatePathExpression,
+  findCalls,
+  getPackageRoot,
+  getSourceLoader,
+  READ_FILE_SYNC,
+  splitTopLevel,
+  type SourceReplacement,
+} from './source-rewrite.js';
+
+const NAMESPACE = 'asset-inline';
+
+/**
+ * The fs/promises module, as a require() or import specifier
+ */
+const FS_PROMISES = `['"](?:node:)?fs/promises['"]`;
+
+/**
+ * Expressions that evaluate to the fs/promises module: `require('fs/promises')`, `require('fs').promises`, `fs.promises`
+ */
+const FS_PROMISES_VALUE = `(?:require\\(\\s*${FS_PROMISES}\\s*\\)|(?:require\\(\\s*['"](?:node:)?fs['"]\\s*\\)|(?<![\\w$.])fs)\\s*\\.\\s*promises\\b)`;
+
+/**
+ * Get the callee patterns of promise-based reads: `fs.promises.readFile(...)`, `fsp.readFile(...)` through a variable
+ * or namespace import of fs/promises, and `readFile(...)` imported from fs/promises.
+ * fs.readFile(...) is the callback API and is left alone.
+ */
+function getReadFilePromisePatterns(code: string): RegExp[] {
+  const patterns = [new RegExp(`${FS_PROMISES_VALUE}\\s*\\.\\s*readFile\\s*\\(`, 'g')];
+
+  // const fsp = require('fs/promises') / const fsp = fs.promises / import * as fsp from 'fs/promises'
+  const namespaces = [
+    ...code.matchAll(new RegExp(`\\b(?:var|let|const)\\s+([A-Za-z_$][\\w$]*)\\s*=\\s*${FS_PROMISES_VALUE}\\s*[;,\\n]`, 'g')),
+    ...code.matchAll(new RegExp(`\\bimport\\s+(?:\\*\\s+as\\s+)?([A-Za-z_$][\\w$]*)\\s+from\\s*${FS_PROMISES}`, 'g')),
+  ];
+  for (const match of namespaces) {
+    patterns.push(new RegExp(`(?<![\\w$.])${match[1].replace(/\$/g, '\\$')}\\s*\\.\\s*readFile\\s*\\(`, 'g'));
+  }
+
+  // const { readFile } = require('fs/promises') / import { readFile } from 'fs/promises'
+  const destructured = new RegExp(`(?:\\b(?:var|let|const)\\s*\\{[^}]*\\breadFile\\b[^}]*\\}\\s*=\\s*${FS_PROMISES_VALUE}|\\bimport\\s*\\{[^}]*\\breadFile\\b[^}]*\\}\\s*from\\s*${FS_PROMISES})`);
+  if (destructured.test(code)) {
+    patterns.push(/(?<![\w$.])readFile\s*\(/g);
+  }
+
+  return patterns;
+}
+
+/**
+ * Asset inline plugin
+ * Embeds package asset files with the configured extensions in the bundle and serves
+ * `readFileSync` / `fs.promises.readFile` reads and direct imports from the embedded contents
+ */
+export function createAssetInlinePlugin(config: BackbundleConfig): Plugin {
+  return {
+    name: 'asset-inline',
+    setup(build) {
+      const packages = config.assetPackages?.packages;
+      const extensions = config.assetPackages?.extensions || ['.json', '.txt', '.xml', '.yaml', '.yml'];
+
+      // Only embed files from packages, restricted to the configured packages if any
+      const shouldInline = (assetPath: string): boolean => {
+        const pkg = getPackageRoot(assetPath);
+        if (!pkg || !extensions.includes(extname(assetPath))) return false;
+        return !packages || packages.length === 0 || packages.includes(pkg.name);
+      };
+
+      // import template from './template.yaml' (esbuild already handles JSON and JavaScript)
+      const importExtensions = extensions.filter(ext => !['.json', '.js', '.cjs', '.mjs'].includes(ext));
+      if (importExtensions.length > 0) {
+        const escaped = importExtensions.map(ext => ext.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+        build.onResolve({ filter: new RegExp(`(?:${escaped.join('|')})$`) }, (args) => {
+          if (args.namespace === NAMESPACE || !args.importer) return null;
+
+          let assetPath: string;
+          try {
+            assetPath = isAbsolute(args.path) || args.path.startsWith('.')
+              ? resolve(args.resolveDir, args.path)
+              : createRequire(resolve(args.resolveDir, 'index.js')).resolve(args.path);
+          } catch {
+            return null;
+          }
+
+          if (!existsSync(assetPath) || !shouldInline(assetPath)) return null;
+          return { path: assetPath, namespace: NAMESPACE };
+        });
+      }
+
+      // Embedded reads resolve to the asset namespace regardless of the file extension
+      build.onResolve({ filter: new RegExp(`\\?${NAMESPACE}$`) }, (args) => ({
+        path: args.path.slice(0, -(NAMESPACE.length + 1)),
+        namespace: NAMESPACE,
+      }));
+
+      build.onLoad({ filter: /.*/, namespace: NAMESPACE }, (args) => ({
+        contents: `module.exports = ${JSON.stringify(readFileSync(args.path, 'utf8'))};\n`,
+        loader: 'js',
+        watchFiles: [args.path],
+      }));
+
+      // Rewrite runtime reads of package assets to the embedded contents
+      addSourceTransform(build, /[\\/]node_modules[\\/].*\.[cm]?[jt]sx?$/, (args) => {
+        const { contents } = args;
+        if (!/readFile/.test(contents)) return null;
+
+        const dir = dirname(args.path);
+        const variables = collectPathVariables(contents, dir);
+        const replacements: SourceReplacement[] = [];
+
+        // Resolve the arguments of a read call to an embeddable asset, and whether it returns a string
+        const resolveRead = (callArgs: string): { assetPath: string; text: boolean } | null => {
+          const [path, options = '', ...rest] = splitTopLevel(callArgs, ',');
+          if (rest.some(arg => arg !== '')) return null;
+
+          const value = evaluatePathExpression(path, dir, variables);
+          if (!value || !isAbsolute(value) || !existsSync(value) || !shouldInline(value)) return null;
+
+          // Reads return a Buffer unless an encoding is given, options held in variables cannot be followed
+          if (options !== '' && !/^(?:null|undefined|(['"]).*\1|\{[^]*\})$/.test(options)) return null;
+          const binary = ['', 'null', 'undefined'].includes(options) || (options.startsWith('{') && !/\bencoding\b/.test(options));
+          return { assetPath: value, text: !binary };
+        };
+
+        // The embedded text, or a Buffer when the read has no encoding
+        const embedded = (read: { assetPath: string; text: boolean }): string => {
+          const text = `require(${JSON.stringify(`${read.assetPath}?${NAMESPACE}`)})`;
+          return read.text ? text : `Buffer.from(${text})`;
+        };
+
+        // readFileSync(join(__dirname, 'data.json'), 'utf8')
+        for (const call of findCalls(contents, READ_FILE_SYNC)) {
+          const read = resolveRead(call.args);
+          if (read) {
+            replacements.push({ start: call.start, end: call.end, text: embedded(read) });
+          }
+        }
+
+        // await readFile(require.resolve('pkg/data.yaml'), 'utf8')
+        if (/fs\/promises|\.promises\b/.test(contents)) {
+          const rewritten = new Set<number>();
+          for (const callee of getReadFilePromisePatterns(contents)) {
+            for (const call of findCalls(contents, callee)) {
+              const read = rewritten.has(call.start) ? null : resolveRead(call.args);
+              if (read) {
+                rewritten.add(call.start);
+                replacements.push({ start: call.start, end: call.end, text: `Promise.resolve(${embedded(read)})` });
+              }
+            }
+          }
+        }
+
+        if (replacements.length === 0) {
+          return null;
+        }
+
+        console.log(`🔄 Inlined asset reads in ${relative(process.cwd(), args.path)}`);
+        return {
+          contents: applyReplacements(contents, replacements),
+          loader: getSourceLoader(args.path),
+        };
+      });
+    }
+  };
+}
@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { build } from 'esbuild';
+import { AssetManifest } from '../asset-manifest.js';
+import { createAssetPathReplacerPlugin } from './asset-path-replacer.js';
+
+const root = mkdtempSync(join(tmpdir(), 'backbundle-asset-path-'));
+after(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('createAssetPathReplacerPlugin', () => {
+  it('only replaces asset paths passed to path and fs calls', async () => {
+    const entry = join(root, 'index.js');
+    writeFileSync(entry, [
+      "const path = require('path');",
+      "exports.asset = '/app/node_modules/pkg/data.json';",
+      "exports.keys = { '/app/node_modules/pkg/data.json': 1 };",
+      "exports.label = (value) => { switch (value) { case '/app/node_modules/pkg/data.json': return 1; } };",
+      "exports.joined = path.join('/app/node_modules/pkg/data.json');",
+      "exports.read = () => require('fs').readFileSync('/app/node_modules/pkg/data.json', 'utf8');",
+    ].join('\n'));
+
+    const manifest = new AssetManifest();
+    manifest.add('pkg', 'data.json', 'assets/pkg/data.json');
+
+    const result = await build({
+      entryPoints: [entry],
+      bundle: true,
+      write: false,
+      platform: 'node',
+      logLevel: 'silent',
+      plugins: [createAssetPathReplacerPlugin({ entry, output: join(root, 'dist/index.js'), assetPackages: { strategy: 'copy' } }, manifest)],
+    });
+    const code = result.outputFiles[0].text;
+
+    assert.equal(code.match(/__dirname \+ "\/assets\/pkg\/data\.json"/g)?.length, 2);
+    assert.equal(code.match(/"\/app\/node_modules\/pkg\/data\.json"/g)?.length, 3);
+  });
+});
@@ -1,87 +1,71 @@
 import type { Plugin } from 'esbuild';
-import { dirname } from 'path';
+import type { AssetManifest } from '../asset-manifest.js';
 import type { BackbundleConfig } from '../types.js';
+import { addSourceTransform, applyReplacements, findCalls, splitTopLevel, type SourceReplacement } from './source-rewrite.js';
+
+/**
+ * Calls that take a file path: path.join/path.resolve, fs reads and process.dlopen
+ */
+const PATH_CALL = /(?<![\w$])(?:join|resolve|readFileSync|readFile|createReadStream|existsSync|statSync|dlopen)\s*\(/g;
 
 /**
  * Asset path replacement plugin
- * Replaces paths to assets (WASM, binary files, JSON, etc.) from node_modules to dist output
+ * Replaces paths to assets (WASM, binary files, JSON, etc.) from node_modules passed to path and fs calls
+ * with the output paths the copy steps recorded in the asset manifest
  */
-export function createAssetPathReplacerPlugin(config: BackbundleConfig): Plugin {
+export function createAssetPathReplacerPlugin(config: BackbundleConfig, manifest: AssetManifest): Plugin {
   return {
     name: 'asset-path-replacer',
     setup(build) {
-      const _outputDir = dirname(config.output);
+      // Extensions of the files being copied
+      const extensions: string[] = [];
+      if (config.wasmPackages?.strategy === 'copy') {
+        extensions.push('.wasm');
+      }
+      if (config.binaryPackages?.strategy === 'copy') {
+        extensions.push('.node');
+      }
+      if (config.assetPackages?.strategy === 'copy') {
+        extensions.push(...(config.assetPackages.extensions || ['.json', '.txt', '.xml', '.yaml', '.yml']));
+      }
 
-      build.onLoad({ filter: /\.(ts|js|tsx|jsx)$/ }, async (args) => {
-        const fs = await import('fs');
-        const contents = fs.readFileSync(args.path, 'utf8');
-        let transformedContents = contents;
-        let hasChanges = false;
+      const escaped = extensions.map(ext => ext.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+      const literal = new RegExp(
+        `^(['"\`])([^'"\`\\n]*\\/node_modules\\/((?:@[^/'"\`]+\\/)?[^/'"\`]+)\\/([^'"\`\\n]*(?:${escaped.join('|')})))\\1$`
+      );
 
-        // WASM files
-        if (config.wasmPackages?.strategy === 'copy') {
-          const wasmOutputDir = config.wasmPackages.outputDir || 'assets/wasm';
-          const wasmReplaced = transformedContents.replace(
-            /(['"`])([^'"`]*\/node_modules\/([^/]+)\/[^'"`]*\.wasm)\1/g,
-            (match: string, quote: string, fullPath: string, packageName: string) => {
-              const wasmFileName = fullPath.split('/').pop();
-              const newPath = `${quote}./${wasmOutputDir}/${packageName}/${wasmFileName}${quote}`;
-              console.log(`🔄 Replacing WASM path: ${fullPath} → ./${wasmOutputDir}/${packageName}/${wasmFileName}`);
-              hasChanges = true;
-              return newPath;
-            }
-          );
-          transformedContents = wasmReplaced;
-        }
+      addSourceTransform(build, /\.(ts|js|tsx|jsx)$/, (args) => {
+        if (extensions.length === 0 || manifest.size === 0) return null;
 
-        // Binary files (.node)
-        if (config.binaryPackages?.strategy === 'copy') {
-          const binaryOutputDir = config.binaryPackages.outputDir || 'native';
-          const binaryReplaced = transformedContents.replace(
-            /(['"`])([^'"`]*\/node_modules\/([^/]+)\/[^'"`]*\.node)\1/g,
-            (match: string, quote: string, fullPath: string, packageName: string) => {
-              const binaryFileName = fullPath.split('/').pop();
-              const newPath = `${quote}./${binaryOutputDir}/${packageName}/${binaryFileName}${quote}`;
-              console.log(`🔄 Replacing binary path: ${fullPath} → ./${binaryOutputDir}/${packageName}/${binaryFileName}`);
-              hasChanges = true;
-              return newPath;
-            }
-          );
-          transformedContents = binaryReplaced;
-        }
+        const { contents } = args;
+        const replacements: SourceReplacement[] = [];
+
+        for (const call of findCalls(contents, PATH_CALL)) {
+          const argsStart = call.end - 1 - call.args.length;
+          let cursor = 0;
 
-        // Asset files (JSON, YAML, XML, TXT, etc.)
-        if (config.assetPackages?.strategy === 'copy') {
-          const assetOutputDir = config.assetPackages.outputDir || 'assets';
-          const extensions = config.assetPackages.extensions || ['.json', '.txt', '.xml', '.yaml', '.yml'];
+          for (const arg of splitTopLevel(call.args, ',')) {
+            const offset = call.args.indexOf(arg, cursor);
+            cursor = offset + arg.length;
 
-          for (const ext of extensions) {
-            const escapedExt = ext.replace('.', '\\.');
-            const pattern = `(['"\`])([^'"\`]*\\/node_modules\\/([^\\/]+)\\/[^'"\`]*\\${escapedExt})\\x01`;
-            const regex = new RegExp(pattern.replace('\\x01', '\\1'), 'g');
+            const match = literal.exec(arg);
+            const output = match && manifest.get(match[3], match[4]);
+            if (!match || !output) continue;
 
-            const assetReplaced = transformedContents.replace(
-              regex,
-              (match: string, quote: string, fullPath: string, packageName: string) => {
-                const assetFileName = fullPath.split('/').pop();
-                const newPath = `${quote}./${assetOutputDir}/${packageName}/${assetFileName}${quote}`;
-                console.log(`🔄 Replacing asset path: ${fullPath} → ./${assetOutputDir}/${packageName}/${assetFileName}`);
-                hasChanges = true;
-                return newPath;
-              }
-            );
-            transformedContents = assetReplaced;
+            console.log(`🔄 Replacing asset path: ${match[2]} → ./${output}`);
+            replacements.push({
+              start: argsStart + offset,
+              end: argsStart + cursor,
+              text: `__dirname + ${JSON.stringify(`/${output}`)}`,
+            });
           }
         }
 
-        if (hasChanges) {
-          return {
-            contents: transformedContents,
-            loader: args.path.endsWith('.ts') || args.path.endsWith('.tsx') ? 'ts' : 'js'
-          };
+        if (replacements.length === 0) {
+          return null;
         }
 
-        return null;
+        return { contents: applyReplacements(contents, replacements) };
       });
     }
   };
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { build } from 'esbuild';
+import { createDecoratorMetadataPlugin } from './decorator-metadata.js';
+
+const root = mkdtempSync(join(tmpdir(), 'backbundle-decorators-'));
+after(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('createDecoratorMetadataPlugin', () => {
+  it('emits constructor parameter types, including interfaces imported from other files', async () => {
+    // No target and tslib helpers, as in many NestJS projects that do not install tslib
+    writeFileSync(join(root, 'tsconfig.json'), JSON.stringify({ compilerOptions: { importHelpers: true, verbatimModuleSyntax: true } }));
+    writeFileSync(join(root, 'logger.ts'), 'export interface Logger { log(message: string): void }');
+    writeFileSync(join(root, 'database.ts'), 'export class Database {}');
+    writeFileSync(join(root, 'index.ts'), [
+      "import { Logger } from './logger';",
+      "import { Database } from './database';",
+      'const Injectable = (): ClassDecorator => () => {};',
+      '@Injectable()',
+      'export class Service {',
+      '  constructor(private readonly logger: Logger, private readonly database: Database) {}',
+      '}',
+    ].join('\n'));
+
+    const entry = join(root, 'index.ts');
+    const result = await build({
+      entryPoints: [entry],
+      bundle: true,
+      write: false,
+      format: 'esm',
+      platform: 'node',
+      logLevel: 'silent',
+      tsconfig: join(root, 'tsconfig.json'),
+      plugins: [createDecoratorMetadataPlugin({ entry, output: join(root, 'dist/index.js') })],
+    });
+    const code = result.outputFiles[0].text;
+
+    assert.match(code, /"design:paramtypes", \[Object, Database\]/);
+    // Classes are not lowered to ES5 functions
+    assert.match(code, /Service = class\b/);
+    assert.doesNotMatch(code, /tslib/);
+  });
+});
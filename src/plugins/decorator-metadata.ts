@@ -0,0 +1,177 @@
+import type { Plugin } from 'esbuild';
+import { createRequire } from 'module';
+import { dirname, join, resolve } from 'path';
+import type { BackbundleConfig } from '../types.js';
+import { addSourceTransform } from './source-rewrite.js';
+
+/**
+ * The subset of the TypeScript compiler API used to emit decorator metadata
+ */
+interface TypeScriptApi {
+  sys: {
+    fileExists(path: string): boolean;
+    readFile(path: string): string | undefined;
+    directoryExists(path: string): boolean;
+    getDirectories(path: string): string[];
+    realpath?(path: string): string;
+  };
+  findConfigFile(searchPath: string, fileExists: (path: string) => boolean): string | undefined;
+  readConfigFile(fileName: string, readFile: (path: string) => string | undefined): { config?: unknown };
+  parseJsonConfigFileContent(json: unknown, host: TypeScriptApi['sys'], basePath: string): { options: Record<string, unknown> };
+  createLanguageService(host: LanguageServiceHost): { getEmitOutput(fileName: string): { outputFiles: { name: string; text: string }[] } };
+  getDefaultLibFilePath(options: Record<string, unknown>): string;
+  ScriptSnapshot: { fromString(text: string): unknown };
+  ModuleKind: { ESNext: number };
+  ScriptTarget: { ESNext: number };
+}
+
+/**
+ * The subset of the language service host the plugin implements
+ */
+interface LanguageServiceHost {
+  getCompilationSettings(): Record<string, unknown>;
+  getScriptFileNames(): string[];
+  getScriptVersion(fileName: string): string;
+  getScriptSnapshot(fileName: string): unknown;
+  getCurrentDirectory(): string;
+  getDefaultLibFileName(options: Record<string, unknown>): string;
+  fileExists(path: string): boolean;
+  readFile(path: string): string | undefined;
+  directoryExists(path: string): boolean;
+  getDirectories(path: string): string[];
+  realpath?(path: string): string;
+}
+
+function isTypeScriptApi(value: unknown): value is TypeScriptApi {
+  return typeof value === 'object' && value !== null &&
+    'createLanguageService' in value && typeof value.createLanguageService === 'function' &&
+    'parseJsonConfigFileContent' in value && typeof value.parseJsonConfigFileContent === 'function';
+}
+
+/**
+ * Class and member decorators starting a line, and parameter decorators after `(` or `,`.
+ * JSDoc tags such as ` * @param` do not match.
+ */
+const DECORATOR = /^[ \t]*@[A-Za-z_$]|[(,][ \t]*@[A-Za-z_$]/m;
+
+/**
+ * Load the TypeScript compiler installed in the project
+ */
+function loadTypeScript(baseDir: string): TypeScriptApi | null {
+  try {
+    const typescript: unknown = createRequire(join(baseDir, 'package.json'))('typescript');
+    return isTypeScriptApi(typescript) ? typescript : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the compiler options of the project's tsconfig.json, or of the tsconfig passed to esbuild
+ */
+function readCompilerOptions(ts: TypeScriptApi, baseDir: string, tsconfig?: string): Record<string, unknown> {
+  const configFile = tsconfig ? resolve(baseDir, tsconfig) : ts.findConfigFile(baseDir, path => ts.sys.fileExists(path));
+  if (!configFile) return {};
+
+  const { config } = ts.readConfigFile(configFile, path => ts.sys.readFile(path));
+  return config ? ts.parseJsonConfigFileContent(config, ts.sys, dirname(configFile)).options : {};
+}
+
+/**
+ * Create a compiler for single source files backed by a language service, so that imports only used
+ * as types (such as interfaces in constructor parameters) are dropped like tsc does.
+ * Files other than the compiled ones are read from disk.
+ */
+function createFileCompiler(ts: TypeScriptApi, baseDir: string, compilerOptions: Record<string, unknown>) {
+  const sources = new Map<string, { contents: string; version: number }>();
+
+  const service = ts.createLanguageService({
+    getCompilationSettings: () => compilerOptions,
+    getScriptFileNames: () => [...sources.keys()],
+    getScriptVersion: (fileName) => String(sources.get(fileName)?.version ?? 0),
+    getScriptSnapshot: (fileName) => {
+      const contents = sources.get(fileName)?.contents ?? ts.sys.readFile(fileName);
+      return contents === undefined ? undefined : ts.ScriptSnapshot.fromString(contents);
+    },
+    getCurrentDirectory: () => baseDir,
+    getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+    fileExists: (path) => sources.has(path) || ts.sys.fileExists(path),
+    readFile: (path) => sources.get(path)?.contents ?? ts.sys.readFile(path),
+    directoryExists: (path) => ts.sys.directoryExists(path),
+    getDirectories: (path) => ts.sys.getDirectories(path),
+    realpath: ts.sys.realpath && ((path) => ts.sys.realpath!(path)),
+  });
+
+  return (fileName: string, contents: string): string | null => {
+    const source = sources.get(fileName);
+    if (source?.contents !== contents) {
+      sources.set(fileName, { contents, version: (source?.version ?? 0) + 1 });
+    }
+
+    const output = service.getEmitOutput(fileName).outputFiles.find(file => /\.[cm]?jsx?$/.test(file.name));
+    return output ? output.text : null;
+  };
+}
+
+/**
+ * Decorator metadata plugin
+ * esbuild does not support `emitDecoratorMetadata`, so NestJS constructor injection and TypeORM column types
+ * lose their `design:paramtypes`/`design:type` metadata. Source files containing decorators are compiled with
+ * the project's TypeScript and tsconfig.json settings instead; all other files stay on esbuild.
+ */
+export function createDecoratorMetadataPlugin(config: BackbundleConfig): Plugin {
+  return {
+    name: 'decorator-metadata',
+    setup(build) {
+      const baseDir = process.cwd();
+      const ts = loadTypeScript(baseDir);
+
+      if (!ts) {
+        build.onStart(() => ({
+          warnings: [{ text: 'Decorator metadata is not emitted because the typescript package is not installed in the project' }],
+        }));
+        return;
+      }
+
+      const projectOptions = readCompilerOptions(ts, baseDir, build.initialOptions.tsconfig);
+      const compilerOptions: Record<string, unknown> = {
+        ...projectOptions,
+        // TypeScript defaults to ES5, leave lowering the syntax to esbuild's target
+        target: projectOptions.target ?? ts.ScriptTarget.ESNext,
+        experimentalDecorators: true,
+        emitDecoratorMetadata: true,
+        // Leave imports and bundling to esbuild, inlining the helpers so tslib is not required
+        module: ts.ModuleKind.ESNext,
+        importHelpers: false,
+        // Let TypeScript drop the imports only used as types
+        verbatimModuleSyntax: false,
+        declaration: false,
+        noEmit: false,
+        noEmitOnError: false,
+        emitDeclarationOnly: false,
+        composite: false,
+        incremental: false,
+        sourceMap: false,
+        inlineSourceMap: Boolean(config.sourcemap),
+        inlineSources: Boolean(config.sourcemap),
+      };
+
+      const compile = createFileCompiler(ts, baseDir, compilerOptions);
+
+      addSourceTransform(build, /\.[cm]?tsx?$/, (args) => {
+        if (/[\\/]node_modules[\\/]/.test(args.path) || args.path.endsWith('.d.ts')) return null;
+
+        const { contents } = args;
+        if (!DECORATOR.test(contents)) return null;
+
+        const output = compile(args.path, contents);
+        if (output === null) return null;
+
+        return {
+          contents: output,
+          loader: args.path.endsWith('x') ? 'jsx' : 'js',
+        };
+      });
+    }
+  };
+}
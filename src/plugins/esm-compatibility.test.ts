@@ -0,0 +1,43 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { build } from 'esbuild';
+import { createEsmCompatibilityPlugin } from './esm-compatibility.js';
+
+/**
+ * Bundle a module as ESM with a banner, returning the output code
+ */
+async function bundleWithBanner(banner: string): Promise<string> {
+  const result = await build({
+    stdin: { contents: 'console.log(__dirname, __filename);' },
+    bundle: true,
+    write: false,
+    format: 'esm',
+    platform: 'node',
+    banner: { js: banner },
+    plugins: [createEsmCompatibilityPlugin()],
+  });
+  return result.outputFiles[0].text;
+}
+
+function count(code: string, pattern: RegExp): number {
+  return code.match(pattern)?.length || 0;
+}
+
+describe('createEsmCompatibilityPlugin', () => {
+  it('declares __filename and __dirname before banners that only use them', async () => {
+    const banner = 'globalThis.root=__dirname;';
+    const code = await bundleWithBanner(banner);
+
+    assert.equal(count(code, /const __filename\b/g), 1);
+    assert.equal(count(code, /const __dirname\b/g), 1);
+    assert.ok(code.indexOf('const __dirname') < code.indexOf(banner));
+  });
+
+  it('keeps the declarations of banners that define them', async () => {
+    const banner = "import{fileURLToPath}from'url';import{dirname}from'path';const __filename=fileURLToPath(import.meta.url);const __dirname=dirname(__filename);";
+    const code = await bundleWithBanner(banner);
+
+    assert.equal(count(code, /const __filename\b/g), 1);
+    assert.equal(count(code, /const __dirname\b/g), 1);
+  });
+});
@@ -1,5 +1,12 @@
 import type { Plugin } from 'esbuild';
 
+/**
+ * Check whether a banner imports a binding under its own name, e.g. `import { dirname } from 'path'`
+ */
+function importsBinding(banner: string, name: string): boolean {
+  return new RegExp(`\\bimport\\s*\\{[^}]*(?:\\b${name}\\b(?!\\s+as\\b)|\\bas\\s+${name}\\b)[^}]*\\}`).test(banner);
+}
+
 /**
  * ESM compatibility plugin
  * - Adds createRequire polyfill for ESM format to handle CommonJS dependencies
@@ -23,15 +30,15 @@ export function createEsmCompatibilityPlugin(): Plugin {
         );
       }
 
-      // Add __filename and __dirname polyfills if not already present
-      const needsFilename = !/__filename\b/.test(existingBanner);
-      const needsDirname = !/__dirname\b/.test(existingBanner);
+      // Add __filename and __dirname polyfills if not already defined, banners may only use them
+      const needsFilename = !/\b(?:const|let|var)\s+__filename\b/.test(existingBanner);
+      const needsDirname = !/\b(?:const|let|var)\s+__dirname\b/.test(existingBanner);
       if (needsFilename || needsDirname) {
         // Ensure helpers are imported once
-        if (!/fileURLToPath\b/.test(existingBanner)) {
+        if (!importsBinding(existingBanner, 'fileURLToPath')) {
           parts.push("import { fileURLToPath } from 'url';");
         }
-        if (!/\bdirname\b/.test(existingBanner)) {
+        if (!importsBinding(existingBanner, 'dirname')) {
           parts.push("import { dirname } from 'path';");
         }
         if (needsFilename) {
@@ -39,7 +46,7 @@ export function createEsmCompatibilityPlugin(): Plugin {
         }
         if (needsDirname) {
           // __dirname depends on __filename
-          if (!needsFilename && !/__filename\b/.test(existingBanner)) {
+          if (!needsFilename && !/\b(?:const|let|var)\s+__filename\b/.test(existingBanner)) {
             // If __filename is not defined anywhere, define it first
             parts.push('const __filename = fileURLToPath(import.meta.url);');
           }
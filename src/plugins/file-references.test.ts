@@ -0,0 +1,63 @@
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { build } from 'esbuild';
+import { AssetManifest } from '../asset-manifest.js';
+import { createFileReferencePlugin } from './file-references.js';
+import { getBuiltinPlugins } from './index.js';
+
+const root = mkdtempSync(join(tmpdir(), 'backbundle-file-references-'));
+after(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('createFileReferencePlugin', () => {
+  const packageDir = join(root, 'node_modules', 'pkg');
+  const outDir = join(root, 'dist');
+  mkdirSync(join(packageDir, 'templates'), { recursive: true });
+  writeFileSync(join(packageDir, 'package.json'), JSON.stringify({ name: 'pkg', main: 'index.js' }));
+  writeFileSync(join(packageDir, 'templates', 'page.html'), '<p>page</p>');
+  writeFileSync(join(packageDir, 'data.txt'), 'data');
+  writeFileSync(join(packageDir, 'index.js'), [
+    "const fs = require('fs');",
+    "const path = require('path');",
+    "exports.template = (name) => fs.readFileSync(path.join(__dirname, 'templates', name), 'utf8');",
+    "exports.data = () => fs.readFileSync(__dirname + '/data.txt', 'utf8');",
+  ].join('\n'));
+
+  const manifest = new AssetManifest();
+
+  it('rewrites references to files of bundled packages', async () => {
+    await build({
+      entryPoints: [join(packageDir, 'index.js')],
+      outfile: join(outDir, 'index.js'),
+      bundle: true,
+      platform: 'node',
+      logLevel: 'silent',
+      plugins: [createFileReferencePlugin({ entry: join(packageDir, 'index.js'), output: join(outDir, 'index.js') }, manifest)],
+    });
+
+    const code = readFileSync(join(outDir, 'index.js'), 'utf-8');
+    assert.match(code, /path\.join\(__dirname \+ "\/assets\/pkg\/templates", name\)/);
+    assert.match(code, /__dirname \+ "\/assets\/pkg\/data\.txt"/);
+  });
+
+  it('copies the referenced files next to the bundle', () => {
+    const bundled = createRequire(import.meta.url)(join(outDir, 'index.js')) as { template: (name: string) => string; data: () => string };
+    assert.equal(bundled.template('page.html'), '<p>page</p>');
+    assert.equal(bundled.data(), 'data');
+    assert.equal(manifest.get('pkg', 'templates'), 'assets/pkg/templates');
+  });
+});
+
+describe('getBuiltinPlugins', () => {
+  const config = { entry: 'src/index.ts', output: 'dist/index.js' };
+
+  it('only relocates file references when enabled', () => {
+    assert.equal(getBuiltinPlugins(config).some(plugin => plugin.name === 'file-references'), false);
+    assert.equal(getBuiltinPlugins({ ...config, relocateFiles: true }).some(plugin => plugin.name === 'file-references'), true);
+  });
+});
@@ -0,0 +1,243 @@
+import type { Plugin } from 'esbuild';
+import { cpSync, existsSync } from 'fs';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import type { AssetManifest } from '../asset-manifest.js';
+import type { BackbundleConfig } from '../types.js';
+import {
+  addSourceTransform,
+  applyReplacements,
+  evaluatePathExpression,
+  findCalls,
+  getPackageRoot,
+  getSourceLoader,
+  splitTopLevel,
+  type SourceReplacement,
+} from './source-rewrite.js';
+
+/**
+ * path.join(__dirname, ...) / path.resolve(__dirname, ...) calls
+ */
+const DIRNAME_PATH_CALL = /(?:\bpath\s*\.\s*|\brequire\(\s*['"](?:node:)?path['"]\s*\)\s*\.\s*|(?<![\w$.]))(join|resolve)\s*\((?=\s*__dirname\b)/g;
+
+/**
+ * __dirname + '...' concatenations
+ */
+const DIRNAME_CONCAT = /(?<![\w$.])__dirname\s*\+/g;
+
+/**
+ * `${__dirname}/...` template literals
+ */
+const DIRNAME_TEMPLATE = /`\$\{\s*__dirname\s*\}/g;
+
+const NEW_URL = /\bnew\s+URL\s*\(/g;
+
+/**
+ * Characters that end an expression at the top level
+ */
+const EXPRESSION_END = ',;)]}?:=|&';
+
+/**
+ * Find the end of the expression starting at the given offset
+ */
+function findExpressionEnd(code: string, start: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = start; i < code.length; i++) {
+    const char = code[i];
+
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (depth > 0 && ')]}'.includes(char)) {
+      depth--;
+    } else if (depth === 0 && EXPRESSION_END.includes(char)) {
+      return i;
+    } else if (depth === 0 && char === '\n') {
+      // Line breaks only continue the expression around a `+`
+      const before = code.slice(start, i).trimEnd();
+      const after = code.slice(i).trimStart();
+      if (!before.endsWith('+') && !after.startsWith('+')) return i;
+    }
+  }
+
+  return code.length;
+}
+
+/**
+ * Count the leading expressions that evaluate statically, returning their values
+ */
+function evaluatePrefix(expressions: string[], dir: string): string[] {
+  const values: string[] = [];
+  for (const expression of expressions) {
+    const value = evaluatePathExpression(expression, dir);
+    if (value === null) break;
+    values.push(value);
+  }
+  return values;
+}
+
+/**
+ * File reference relocation plugin
+ * Finds files bundled package modules read relative to themselves (`path.join(__dirname, ...)`,
+ * `__dirname + '...'`, `new URL(..., import.meta.url)`), copies them into the output and rewrites
+ * the expressions to point at the copies
+ */
+export function createFileReferencePlugin(config: BackbundleConfig, manifest?: AssetManifest): Plugin {
+  return {
+    name: 'file-references',
+    setup(build) {
+      const filesDir = config.assetPackages?.outputDir || 'assets';
+      const files = new Map<string, { packageName: string; file: string; outputPath: string }>();
+
+      build.onStart(() => {
+        files.clear();
+      });
+
+      // Output path of a package file copied before, directly or as part of a copied directory
+      const findCopiedPath = (packageName: string, parts: string[]): string | undefined => {
+        for (let i = parts.length; i >= 0; i--) {
+          const output = manifest?.get(packageName, parts.slice(0, i).join('/'));
+          if (output !== undefined) return [output, ...parts.slice(i)].join('/');
+        }
+        return undefined;
+      };
+
+      addSourceTransform(build, /[\\/]node_modules[\\/].*\.[cm]?[jt]sx?$/, (args) => {
+        const { contents } = args;
+        if (!/__dirname|import\.meta\.url/.test(contents)) return null;
+
+        const pkg = getPackageRoot(args.path);
+        if (!pkg) return null;
+
+        const dir = dirname(args.path);
+        const replacements: SourceReplacement[] = [];
+        const covered: [number, number][] = [];
+        const unresolved: string[] = [];
+
+        const isCovered = (offset: number) => covered.some(([start, end]) => offset >= start && offset < end);
+
+        // Runtime expression for a file or directory of the package copied into the output
+        const relocate = (value: string): string | null => {
+          const source = resolve(value);
+          const file = relative(pkg.root, source);
+          if (!file || file.startsWith('..') || isAbsolute(file) || !existsSync(source)) return null;
+
+          const parts = file.split(sep);
+          const ownPath = [filesDir, pkg.name, ...parts].join('/');
+          const copiedPath = findCopiedPath(pkg.name, parts);
+
+          // Files the package handling steps already copied are reused instead of copied again
+          const outputPath = copiedPath !== undefined && copiedPath !== ownPath ? copiedPath : ownPath;
+          if (outputPath === ownPath) {
+            files.set(source, { packageName: pkg.name, file, outputPath });
+          }
+
+          const trailingSlash = /[\\/]$/.test(value) ? '/' : '';
+          return `__dirname + ${JSON.stringify(`/${outputPath}${trailingSlash}`)}`;
+        };
+
+        const record = (start: number, end: number, text: string | null) => {
+          covered.push([start, end]);
+          if (text === null) {
+            unresolved.push(contents.slice(start, end));
+          } else {
+            replacements.push({ start, end, text });
+          }
+        };
+
+        // path.join(__dirname, '../templates', name)
+        for (const call of findCalls(contents, DIRNAME_PATH_CALL)) {
+          const callee = /(join|resolve)\s*\($/.exec(contents.slice(call.start, call.end - call.args.length - 1));
+          const pathArgs = splitTopLevel(call.args, ',');
+          const values = evaluatePrefix(pathArgs, dir);
+          const prefix = callee?.[1] === 'resolve' ? resolve(...values) : join(...values);
+          const relocated = relocate(prefix);
+
+          let text: string | null = null;
+          if (relocated && values.length === pathArgs.length) {
+            text = relocated;
+          } else if (relocated) {
+            const open = call.end - call.args.length - 2;
+            text = `${contents.slice(call.start, open)}(${[relocated, ...pathArgs.slice(values.length)].join(', ')})`;
+          }
+          record(call.start, call.end, text);
+        }
+
+        // __dirname + '/locales/' + lang
+        for (const match of contents.matchAll(DIRNAME_CONCAT)) {
+          if (isCovered(match.index)) continue;
+
+          const end = findExpressionEnd(contents, match.index);
+          const terms = splitTopLevel(contents.slice(match.index, end), '+');
+          const values = evaluatePrefix(terms, dir);
+          const relocated = relocate(values.join(''));
+          record(match.index, end, relocated && [relocated, ...terms.slice(values.length)].join(' + '));
+        }
+
+        // `${__dirname}/templates/${name}`
+        for (const match of contents.matchAll(DIRNAME_TEMPLATE)) {
+          if (isCovered(match.index)) continue;
+
+          const end = contents.indexOf('`', match.index + 1) + 1;
+          const body = contents.slice(match.index + match[0].length, end - 1);
+          const staticPart = body.split('${')[0];
+          const relocated = end > 0 ? relocate(dir + staticPart) : null;
+          record(match.index, end, relocated && `\`\${${relocated}}${body.slice(staticPart.length)}\``);
+        }
+
+        // new URL('./data.bin', import.meta.url)
+        for (const call of findCalls(contents, NEW_URL)) {
+          const [specifier, base] = splitTopLevel(call.args, ',');
+          if (base !== 'import.meta.url') continue;
+
+          const value = evaluatePathExpression(specifier, dir);
+          const relocated = value !== null ? relocate(resolve(dir, value) + (value.endsWith('/') ? '/' : '')) : null;
+          record(call.start, call.end, relocated && `require("url").pathToFileURL(${relocated})`);
+        }
+
+        // Any other use of __dirname cannot be followed statically
+        for (const match of contents.matchAll(/(?<![\w$.])__dirname\b/g)) {
+          if (isCovered(match.index)) continue;
+
+          const before = contents.slice(Math.max(0, match.index - 12), match.index);
+          if (/(?:const|let|var|typeof)\s+$/.test(before)) continue;
+          unresolved.push(contents.slice(match.index, findExpressionEnd(contents, match.index)));
+        }
+
+        for (const expression of unresolved) {
+          const snippet = expression.replace(/\s+/g, ' ').slice(0, 80);
+          console.warn(`⚠️  Could not relocate file reference in ${relative(process.cwd(), args.path)}: ${snippet}`);
+        }
+
+        if (replacements.length === 0) {
+          return null;
+        }
+
+        return {
+          contents: applyReplacements(contents, replacements),
+          loader: getSourceLoader(args.path),
+        };
+      });
+
+      // Copy the referenced files next to the bundle
+      build.onEnd((result) => {
+        if (result.errors.length > 0 || files.size === 0) return;
+
+        const outputDir = build.initialOptions.outdir || dirname(build.initialOptions.outfile || config.output);
+        for (const [source, { packageName, file, outputPath }] of files) {
+          manifest?.add(packageName, file, outputPath);
+          cpSync(source, join(outputDir, outputPath), {
+            recursive: true,
+            filter: (file) => !relative(source, file).split(sep).includes('node_modules'),
+          });
+          console.log(`📄 Copied file reference: ${outputPath}`);
+        }
+      });
+    }
+  };
+}
@@ -1,15 +1,54 @@
 import type { Plugin } from 'esbuild';
+import { AssetManifest } from '../asset-manifest.js';
 import type { BackbundleConfig } from '../types.js';
+import { createAssetInlinePlugin } from './asset-inline.js';
 import { createAssetPathReplacerPlugin } from './asset-path-replacer.js';
+import { createDecoratorMetadataPlugin } from './decorator-metadata.js';
 import { createEsmCompatibilityPlugin } from './esm-compatibility.js';
+import { createFileReferencePlugin } from './file-references.js';
+import { createNativeLoaderPlugin } from './native-loader.js';
 import { createNodeBuiltinsPlugin } from './node-builtins.js';
+import { createOptionalDependenciesPlugin } from './optional-dependencies.js';
+import { createWasmInlinePlugin } from './wasm-inline.js';
+import { createWorkspacePackagesPlugin } from './workspace-packages.js';
 
 /**
- * Get all built-in plugins for the configuration
+ * Get all built-in plugins for the configuration.
+ * Plugins that copy files record them in the manifest, which also holds the files copied before the build.
  */
-export function getBuiltinPlugins(config: BackbundleConfig): Plugin[] {
+export function getBuiltinPlugins(config: BackbundleConfig, manifest: AssetManifest = new AssetManifest()): Plugin[] {
   const plugins: Plugin[] = [];
 
+  // Add bundling of workspace packages from source, before npm packages are externalized
+  if (config.workspacePackages !== false) {
+    plugins.push(createWorkspacePackagesPlugin());
+  }
+
+  // Add stubbing of unresolvable optional dependencies, before other plugins resolve them
+  if (config.optionalDependencies) {
+    plugins.push(createOptionalDependenciesPlugin(config));
+  }
+
+  // Add native addon loader rewriting when binary packages are copied and bundled
+  if (config.binaryPackages?.strategy === 'copy' && config.binaryPackages.rewriteLoaders !== false) {
+    plugins.push(createNativeLoaderPlugin(config, manifest));
+  }
+
+  // Add WASM embedding plugin for the inline strategy
+  if (config.wasmPackages?.strategy === 'inline') {
+    plugins.push(createWasmInlinePlugin(config, manifest));
+  }
+
+  // Add asset embedding plugin for the inline strategy
+  if (config.assetPackages?.strategy === 'inline') {
+    plugins.push(createAssetInlinePlugin(config));
+  }
+
+  // Add relocation of files read relative to bundled package modules when enabled
+  if (config.relocateFiles) {
+    plugins.push(createFileReferencePlugin(config, manifest));
+  }
+
   // Add asset path replacement plugin if any asset copying is enabled
   const needsAssetPathReplacement =
     config.wasmPackages?.strategy === 'copy' ||
@@ -17,7 +56,12 @@ export function getBuiltinPlugins(config: BackbundleConfig): Plugin[] {
     config.assetPackages?.strategy === 'copy';
 
   if (needsAssetPathReplacement) {
-    plugins.push(createAssetPathReplacerPlugin(config));
+    plugins.push(createAssetPathReplacerPlugin(config, manifest));
+  }
+
+  // Add decorator metadata emission for source files with decorators, after the plugins rewriting them
+  if (config.decoratorMetadata) {
+    plugins.push(createDecoratorMetadataPlugin(config));
   }
 
   // Add ESM compatibility plugin for ESM format
@@ -34,15 +78,22 @@ export function getBuiltinPlugins(config: BackbundleConfig): Plugin[] {
 /**
  * Get all plugins for the configuration (built-in + user plugins)
  */
-export function getAllPlugins(config: BackbundleConfig): Plugin[] {
-  const builtinPlugins = getBuiltinPlugins(config);
+export function getAllPlugins(config: BackbundleConfig, manifest?: AssetManifest): Plugin[] {
+  const builtinPlugins = getBuiltinPlugins(config, manifest);
   const userPlugins = config.esbuildOptions?.plugins || [];
 
   return [...builtinPlugins, ...userPlugins];
 }
 
 // Re-export individual plugins for direct use
+export { createAssetInlinePlugin } from './asset-inline.js';
 export { createAssetPathReplacerPlugin } from './asset-path-replacer.js';
+export { createDecoratorMetadataPlugin } from './decorator-metadata.js';
 export { createEsmCompatibilityPlugin } from './esm-compatibility.js';
+export { createFileReferencePlugin } from './file-references.js';
+export { createNativeLoaderPlugin } from './native-loader.js';
 export { createNodeBuiltinsPlugin } from './node-builtins.js';
+export { createOptionalDependenciesPlugin } from './optional-dependencies.js';
+export { createWasmInlinePlugin } from './wasm-inline.js';
+export { createWorkspacePackagesPlugin } from './workspace-packages.js';
 
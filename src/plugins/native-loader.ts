@@ -0,0 +1,228 @@
+import type { Plugin } from 'esbuild';
+import { copyFileSync, existsSync, mkdirSync, readdirSync, readFileSync } from 'fs';
+import { glob } from 'glob';
+import { dirname, join, relative, resolve, sep } from 'path';
+import type { AssetManifest } from '../asset-manifest.js';
+import { getBinaryDir, getHostTarget, isHostTarget, matchesBinaryTarget, parseBinaryTarget, type BinaryTarget } from '../binary-handler.js';
+import type { BackbundleConfig } from '../types.js';
+import {
+  addSourceTransform,
+  applyReplacements,
+  evaluatePathExpression,
+  findCalls,
+  getPackageRoot,
+  getRequireCalleePatterns,
+  splitTopLevel,
+  type SourceCall,
+  type SourceReplacement,
+} from './source-rewrite.js';
+
+/**
+ * Locations the bindings package searches, relative to the package root
+ */
+const BINDINGS_LOCATIONS = [
+  ['build'],
+  ['build', 'Debug'],
+  ['build', 'Release'],
+  ['out', 'Debug'],
+  ['Debug'],
+  ['out', 'Release'],
+  ['Release'],
+  ['build', 'default'],
+  ['addon-build', 'release', 'install-root'],
+  ['addon-build', 'debug', 'install-root'],
+  ['addon-build', 'default', 'install-root'],
+];
+
+/**
+ * Pick the addon for the target from candidate files, preferring N-API builds and an exact libc match
+ */
+function pickAddon(files: string[], target: BinaryTarget): string | null {
+  const matching = files.filter(file => file.endsWith('.node') && matchesBinaryTarget(file, target, files) !== false);
+  const score = (file: string) =>
+    (/\bnapi\b/.test(file) ? 2 : 0) + (target.libc && file.includes(target.libc) ? 1 : 0);
+
+  return matching.sort((a, b) => score(b) - score(a))[0] || null;
+}
+
+/**
+ * Resolve the addon `require('bindings')(name)` loads, relative to the package root
+ */
+function resolveBindingsAddon(root: string, name: string, target: BinaryTarget): string | null {
+  const fileName = name.endsWith('.node') ? name : `${name}.node`;
+
+  if (isHostTarget(target)) {
+    for (const location of BINDINGS_LOCATIONS) {
+      const candidate = join(...location, fileName);
+      if (existsSync(join(root, candidate))) return candidate;
+    }
+  }
+
+  // Prebuilt addons, e.g. compiled/<version>/<platform>/<arch>/ or lib/binding/<abi>-<platform>-<arch>/
+  const files = glob.sync(`**/${fileName}`, { cwd: root, nodir: true, ignore: ['node_modules/**', 'build/**'] });
+  return pickAddon(files, target);
+}
+
+/**
+ * Resolve the addon `require('node-gyp-build')(dir)` loads, relative to the package root
+ */
+function resolveNodeGypBuildAddon(root: string, dir: string, target: BinaryTarget): string | null {
+  const base = relative(root, dir);
+
+  if (isHostTarget(target)) {
+    for (const location of [['build', 'Release'], ['build', 'Debug']]) {
+      const buildDir = join(dir, ...location);
+      if (!existsSync(buildDir)) continue;
+
+      const addon = readdirSync(buildDir).find(file => file.endsWith('.node'));
+      if (addon) return join(base, ...location, addon);
+    }
+  }
+
+  const prebuildDir = join(dir, 'prebuilds', `${target.platform}-${target.arch}`);
+  if (!existsSync(prebuildDir)) return null;
+
+  const addon = pickAddon(readdirSync(prebuildDir).map(file => join(base, 'prebuilds', `${target.platform}-${target.arch}`, file)), target);
+  return addon;
+}
+
+/**
+ * Resolve the addon node-pre-gyp's `find(packageJsonPath)` returns, relative to the package root
+ */
+function resolvePreGypAddon(root: string, packageJsonPath: string, target: BinaryTarget): string | null {
+  let moduleName: unknown;
+  try {
+    const packageJson: unknown = JSON.parse(readFileSync(packageJsonPath, 'utf-8'));
+    if (typeof packageJson === 'object' && packageJson !== null && 'binary' in packageJson) {
+      const binary = packageJson.binary;
+      moduleName = typeof binary === 'object' && binary !== null && 'module_name' in binary ? binary.module_name : undefined;
+    }
+  } catch {
+    return null;
+  }
+  if (typeof moduleName !== 'string') return null;
+
+  const packageDir = dirname(packageJsonPath);
+  const files = glob.sync(`**/${moduleName}.node`, { cwd: packageDir, nodir: true, ignore: ['node_modules/**'] });
+  const addon = pickAddon(files, target);
+  return addon ? relative(root, join(packageDir, addon)) : null;
+}
+
+/**
+ * Native addon loader plugin
+ * Rewrites `bindings`, `node-gyp-build` and `node-pre-gyp` lookups (and relative `.node` requires)
+ * in bundled packages to load the addon copied into the binary output directory
+ */
+export function createNativeLoaderPlugin(config: BackbundleConfig, manifest?: AssetManifest): Plugin {
+  return {
+    name: 'native-loader',
+    setup(build) {
+      const target = config.binaryPackages?.target
+        ? parseBinaryTarget(config.binaryPackages.target)
+        : getHostTarget();
+      const binaryDir = getBinaryDir(config);
+      const addons = new Map<string, { packageName: string; file: string; outputFile: string }>();
+
+      build.onStart(() => {
+        addons.clear();
+      });
+
+      addSourceTransform(build, /[\\/]node_modules[\\/].*\.[cm]?js$/, (args) => {
+        const { contents } = args;
+        if (!/bindings|node-gyp-build|node-pre-gyp|\.node['"]/.test(contents)) {
+          return null;
+        }
+
+        const pkg = getPackageRoot(args.path);
+        if (!pkg) return null;
+
+        const dir = dirname(args.path);
+        const replacements: SourceReplacement[] = [];
+        const unresolved: string[] = [];
+
+        // Runtime path of an addon copied from the package into the binary output directory
+        const addonPath = (addon: string): string => {
+          const outputFile = join(binaryDir, pkg.name, addon).split(sep).join('/');
+          addons.set(join(pkg.root, addon), { packageName: pkg.name, file: addon, outputFile });
+          return `__dirname + ${JSON.stringify(`/${outputFile}`)}`;
+        };
+
+        const rewrite = (calls: SourceCall[], resolveAddon: (args: string) => string | null, wrap: boolean) => {
+          for (const call of calls) {
+            const addon = resolveAddon(call.args);
+            if (addon) {
+              const path = addonPath(addon);
+              replacements.push({ start: call.start, end: call.end, text: wrap ? `require(${path})` : `(${path})` });
+            } else {
+              unresolved.push(contents.slice(call.start, call.end));
+            }
+          }
+        };
+
+        // require('bindings')('addon.node') / require('bindings')({ bindings: 'addon' })
+        for (const callee of getRequireCalleePatterns(contents, ['bindings'])) {
+          rewrite(findCalls(contents, callee), (callArgs) => {
+            const name = /^(['"])([^'"]+)\1$/.exec(callArgs.trim()) || /\bbindings\s*:\s*(['"])([^'"]+)\1/.exec(callArgs);
+            return name ? resolveBindingsAddon(pkg.root, name[2], target) : null;
+          }, true);
+        }
+
+        // require('node-gyp-build')(__dirname)
+        for (const callee of getRequireCalleePatterns(contents, ['node-gyp-build'])) {
+          rewrite(findCalls(contents, callee), (callArgs) => {
+            const loadDir = evaluatePathExpression(callArgs, dir);
+            return loadDir ? resolveNodeGypBuildAddon(pkg.root, resolve(dir, loadDir), target) : null;
+          }, true);
+        }
+
+        // require('@mapbox/node-pre-gyp').find(path.join(__dirname, '../package.json'))
+        for (const callee of getRequireCalleePatterns(contents, ['@mapbox/node-pre-gyp', 'node-pre-gyp'], '\\s*\\.\\s*find')) {
+          rewrite(findCalls(contents, callee), (callArgs) => {
+            const packageJsonPath = evaluatePathExpression(splitTopLevel(callArgs, ',')[0], dir);
+            return packageJsonPath ? resolvePreGypAddon(pkg.root, resolve(dir, packageJsonPath), target) : null;
+          }, false);
+        }
+
+        // require('./build/Release/addon.node')
+        for (const match of contents.matchAll(/\brequire\(\s*(['"])(\.{1,2}\/[^'"\n]+\.node)\1\s*\)/g)) {
+          const addon = relative(pkg.root, resolve(dir, match[2]));
+          if (existsSync(join(pkg.root, addon))) {
+            replacements.push({ start: match.index, end: match.index + match[0].length, text: `require(${addonPath(addon)})` });
+          } else {
+            unresolved.push(match[0]);
+          }
+        }
+
+        for (const expression of unresolved) {
+          console.warn(`⚠️  Could not resolve native addon loader in ${relative(process.cwd(), args.path)}: ${expression}`);
+        }
+
+        if (replacements.length === 0) {
+          return null;
+        }
+
+        const transformedContents = applyReplacements(contents, replacements);
+
+        console.log(`🔄 Rewrote native addon loader: ${pkg.name}`);
+        return { contents: transformedContents, loader: 'js' };
+      });
+
+      // Make sure every addon the bundle requires exists in the binary output directory
+      build.onEnd((result) => {
+        if (result.errors.length > 0 || addons.size === 0) return;
+
+        const outputDir = build.initialOptions.outdir || dirname(build.initialOptions.outfile || config.output);
+        for (const [sourcePath, { packageName, file, outputFile }] of addons) {
+          manifest?.add(packageName, file, outputFile);
+
+          const targetPath = join(outputDir, outputFile);
+          if (existsSync(targetPath)) continue;
+
+          mkdirSync(dirname(targetPath), { recursive: true });
+          copyFileSync(sourcePath, targetPath);
+          console.log(`📦 Copied binary: ${outputFile}`);
+        }
+      });
+    }
+  };
+}
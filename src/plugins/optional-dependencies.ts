@@ -0,0 +1,134 @@
+import type { Plugin } from 'esbuild';
+import { readFileSync } from 'fs';
+import { isBuiltin } from 'module';
+import { getImportPackageName } from '../package-manifest.js';
+import type { BackbundleConfig } from '../types.js';
+import { findCalls, findClosingBrace } from './source-rewrite.js';
+
+/**
+ * Namespace of the stubs replacing unresolvable optional dependencies
+ */
+export const OPTIONAL_DEPENDENCY_NAMESPACE = 'optional-dependency';
+
+/**
+ * Helpers that load optional peer dependencies lazily: NestJS loadPackage/loadAdapter,
+ * Knex dialect _driver() methods and common optional require helpers
+ */
+export const LAZY_LOADERS = ['loadPackage', 'loadAdapter', '_driver', 'optionalRequire', 'requireOptional', 'tryRequire', 'lazyRequire'];
+
+const TRY_BLOCK = /\btry\s*\{/g;
+
+/**
+ * require('x') and import('x') with a literal specifier
+ */
+const MODULE_SPECIFIER = /(?<![\w$.])(?:require|import)\s*\(\s*(['"`])([^'"`\s]+)\1\s*\)/g;
+
+/**
+ * Marks the nested resolution used to check whether a dependency is resolvable
+ */
+const RESOLVING = { optionalDependencyCheck: true };
+
+/**
+ * Find the modules a source file requires or imports inside try blocks or lazy loader helpers
+ */
+export function findOptionalImports(code: string, loaders: string[] = LAZY_LOADERS): Set<string> {
+  const ranges: [number, number][] = [];
+
+  for (const match of code.matchAll(TRY_BLOCK)) {
+    const open = match.index + match[0].length - 1;
+    const close = findClosingBrace(code, open);
+    if (close !== -1) ranges.push([open, close]);
+  }
+
+  // Calls like loadPackage('x', ctx, () => require('x')) or (0, util.loadPackage)(...),
+  // and the bodies of loader methods like `_driver() { return require('pg'); }`
+  const names = loaders.map(name => name.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')).join('|');
+  for (const call of findCalls(code, new RegExp(`(?<![\\w$])(?:${names})\\s*\\)?\\s*\\(`, 'g'))) {
+    const body = /^\s*\{/.exec(code.slice(call.end));
+    const close = body ? findClosingBrace(code, call.end + body[0].length - 1) : -1;
+    ranges.push([call.start, close === -1 ? call.end : close]);
+  }
+
+  const imports = new Set<string>();
+  for (const match of code.matchAll(MODULE_SPECIFIER)) {
+    if (ranges.some(([start, end]) => match.index > start && match.index < end)) {
+      imports.add(match[2]);
+    }
+  }
+  return imports;
+}
+
+/**
+ * Optional dependencies plugin
+ * Replaces dependencies that cannot be resolved with stubs throwing MODULE_NOT_FOUND at runtime, when they
+ * are required inside a try block or a lazy loader helper, or listed in `optionalDependencies.packages`.
+ * Frameworks wrapping optional peers in try/catch then behave as if the peers were not installed.
+ */
+export function createOptionalDependenciesPlugin(config: BackbundleConfig): Plugin {
+  const options = typeof config.optionalDependencies === 'object' ? config.optionalDependencies : {};
+  const packages = options.packages || [];
+  const loaders = [...LAZY_LOADERS, ...(options.loaders || [])];
+
+  return {
+    name: 'optional-dependencies',
+    setup(build) {
+      const optionalImports = new Map<string, Set<string>>();
+
+      build.onStart(() => {
+        optionalImports.clear();
+      });
+
+      const isOptional = (path: string, importer: string, kind: string): boolean => {
+        const packageName = getImportPackageName(path);
+        if (packageName && packages.includes(packageName)) return true;
+        if ((kind !== 'require-call' && kind !== 'dynamic-import') || !importer) return false;
+
+        let imports = optionalImports.get(importer);
+        if (!imports) {
+          try {
+            imports = findOptionalImports(readFileSync(importer, 'utf8'), loaders);
+          } catch {
+            imports = new Set();
+          }
+          optionalImports.set(importer, imports);
+        }
+        return imports.has(path);
+      };
+
+      build.onResolve({ filter: /^[^./]/ }, async (args) => {
+        if (args.pluginData === RESOLVING || args.namespace !== 'file' || isBuiltin(args.path)) return undefined;
+        if (!isOptional(args.path, args.importer, args.kind)) return undefined;
+
+        const result = await build.resolve(args.path, {
+          kind: args.kind,
+          importer: args.importer,
+          resolveDir: args.resolveDir,
+          pluginData: RESOLVING,
+        });
+        if (result.errors.length === 0) return undefined;
+
+        return { path: args.path, namespace: OPTIONAL_DEPENDENCY_NAMESPACE };
+      });
+
+      build.onLoad({ filter: /.*/, namespace: OPTIONAL_DEPENDENCY_NAMESPACE }, (args) => ({
+        contents: [
+          `var error = new Error(${JSON.stringify(`Cannot find module '${args.path}'`)});`,
+          `error.code = "MODULE_NOT_FOUND";`,
+          `throw error;`,
+        ].join('\n'),
+        loader: 'js',
+      }));
+    }
+  };
+}
+
+/**
+ * Get the optional dependencies replaced with stubs from the inputs of a build
+ */
+export function getStubbedDependencies(inputs: Record<string, unknown>): string[] {
+  const prefix = `${OPTIONAL_DEPENDENCY_NAMESPACE}:`;
+  return Object.keys(inputs)
+    .filter(input => input.startsWith(prefix))
+    .map(input => input.slice(prefix.length))
+    .sort((a, b) => a.localeCompare(b));
+}
@@ -0,0 +1,376 @@
+import type { BuildOptions, Loader, PluginBuild } from 'esbuild';
+import { readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { join, resolve, sep } from 'path';
+import { fileURLToPath } from 'url';
+
+/**
+ * A call found in a source file
+ */
+export interface SourceCall {
+  /** Start offset of the callee */
+  start: number;
+
+  /** Offset after the closing parenthesis */
+  end: number;
+
+  /** Source text between the parentheses */
+  args: string;
+}
+
+/**
+ * A replacement of a range of source text
+ */
+export interface SourceReplacement {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Values of variables that hold static paths, by name
+ */
+export type PathVariables = Map<string, string>;
+
+const IDENTIFIER = '[A-Za-z_$][\\w$]*';
+
+/**
+ * Prefix of path.join/path.resolve calls: `path.`, `require('path').` or nothing
+ */
+const PATH_MODULE = `(?:(?:path|require\\(\\s*['"](?:node:)?path['"]\\s*\\))\\s*\\.\\s*)?`;
+
+/**
+ * Calls that read a file synchronously: readFileSync(...), fs.readFileSync(...), require('fs').readFileSync(...)
+ */
+export const READ_FILE_SYNC = /(?:\brequire\(\s*['"](?:node:)?fs['"]\s*\)\s*\.\s*|(?<![\w$.])[\w$]+\s*\.\s*|(?<![\w$.]))readFileSync\s*\(/g;
+
+/**
+ * Split an expression on a separator that is not nested in brackets or strings
+ */
+export function splitTopLevel(expression: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+    } else if (char === separator && depth === 0) {
+      parts.push(expression.slice(start, i));
+      start = i + 1;
+    }
+  }
+
+  parts.push(expression.slice(start));
+  return parts.map(part => part.trim());
+}
+
+/**
+ * Find the offset of the parenthesis closing the one at the given offset
+ */
+export function findClosingParen(code: string, open: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = open; i < code.length; i++) {
+    const char = code[i];
+
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Find the offset of the brace closing the one at the given offset
+ */
+export function findClosingBrace(code: string, open: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = open; i < code.length; i++) {
+    const char = code[i];
+
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Find the opening parenthesis of a call that spans the rest of the expression, e.g. in `require('path').join(a)`
+ */
+function findCallParen(expression: string): number {
+  let quote: string | null = null;
+
+  for (let i = 0; i < expression.length; i++) {
+    const char = expression[i];
+
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === '(') {
+      const close = findClosingParen(expression, i);
+      if (close === -1) return -1;
+      if (close === expression.length - 1) return i;
+      i = close;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Find calls whose callee matches the pattern, which must end at the opening parenthesis
+ */
+export function findCalls(code: string, callee: RegExp): SourceCall[] {
+  const calls: SourceCall[] = [];
+
+  for (const match of code.matchAll(callee)) {
+    const open = match.index + match[0].length - 1;
+    const close = findClosingParen(code, open);
+    if (close !== -1) {
+      calls.push({ start: match.index, end: close + 1, args: code.slice(open + 1, close) });
+    }
+  }
+
+  return calls;
+}
+
+/**
+ * Find the callee patterns for a module: direct `require('m')(...)` calls and calls through a variable
+ */
+export function getRequireCalleePatterns(code: string, modules: string[], member: string = ''): RegExp[] {
+  const names = modules.map(name => name.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')).join('|');
+  const patterns = [new RegExp(`\\brequire\\(\\s*(['"])(?:${names})\\1\\s*\\)${member}\\s*\\(`, 'g')];
+
+  const declaration = new RegExp(`\\b(?:var|let|const)\\s+(${IDENTIFIER})\\s*=\\s*require\\(\\s*(['"])(?:${names})\\2\\s*\\)\\s*[;,\\n]`, 'g');
+  for (const match of code.matchAll(declaration)) {
+    patterns.push(new RegExp(`(?<![\\w$.])${match[1]}${member}\\s*\\(`, 'g'));
+  }
+
+  return patterns;
+}
+
+/**
+ * Evaluate a path expression made of __dirname, string and template literals, `+`,
+ * path.join/path.resolve, `new URL(..., import.meta.url)`, require.resolve and known path variables
+ */
+export function evaluatePathExpression(expression: string, dir: string, variables?: PathVariables): string | null {
+  const expr = expression.trim();
+
+  if (expr === '__dirname') {
+    return dir;
+  }
+
+  const variable = variables?.get(expr);
+  if (variable !== undefined) {
+    return variable;
+  }
+
+  const literal = /^(['"])([^'"]*)\1$/.exec(expr);
+  if (literal) {
+    return literal[2];
+  }
+
+  const template = /^`([^`]*)`$/.exec(expr);
+  if (template) {
+    let unresolved = false;
+    const value = template[1].replace(/\$\{([^}]*)\}/g, (_match: string, inner: string) => {
+      const part = evaluatePathExpression(inner, dir, variables);
+      if (part === null) unresolved = true;
+      return part ?? '';
+    });
+    return unresolved ? null : value;
+  }
+
+  const terms = splitTopLevel(expr, '+');
+  if (terms.length > 1) {
+    const values = terms.map(term => evaluatePathExpression(term, dir, variables));
+    return values.every(value => value !== null) ? values.join('') : null;
+  }
+
+  // The remaining forms are calls, which must span the whole expression
+  const open = findCallParen(expr);
+  if (open === -1) {
+    return null;
+  }
+  const args = expr.slice(open + 1, -1);
+
+  if (open === 0) {
+    return evaluatePathExpression(args, dir, variables);
+  }
+
+  const call = new RegExp(`^${PATH_MODULE}(join|resolve)\\s*\\($`).exec(expr.slice(0, open + 1));
+  if (call) {
+    const values = splitTopLevel(args, ',').map(arg => evaluatePathExpression(arg, dir, variables));
+    if (!values.every(value => value !== null)) return null;
+    return call[1] === 'join' ? join(...values) : resolve(...values);
+  }
+
+  if (/^new\s+URL\s*\($/.test(expr.slice(0, open + 1))) {
+    const [specifier, base] = splitTopLevel(args, ',');
+    const value = evaluatePathExpression(specifier, dir, variables);
+    return value !== null && base === 'import.meta.url' ? resolve(dir, value) : null;
+  }
+
+  if (/^require\s*\.\s*resolve\s*\($/.test(expr.slice(0, open + 1))) {
+    const specifier = evaluatePathExpression(splitTopLevel(args, ',')[0], dir, variables);
+    if (specifier === null) return null;
+    try {
+      return createRequire(join(dir, 'index.js')).resolve(specifier);
+    } catch {
+      return null;
+    }
+  }
+
+  if (/^(?:url\s*\.\s*)?fileURLToPath\s*\($/.test(expr.slice(0, open + 1))) {
+    const value = evaluatePathExpression(args, dir, variables);
+    return value !== null && value.startsWith('file:') ? fileURLToPath(value) : value;
+  }
+
+  return null;
+}
+
+/**
+ * Collect `const name = <path expression>` declarations whose value can be evaluated
+ */
+export function collectPathVariables(code: string, dir: string): PathVariables {
+  const variables: PathVariables = new Map();
+  const declaration = new RegExp(`\\b(?:var|let|const)\\s+(${IDENTIFIER})\\s*=\\s*`, 'g');
+
+  for (const match of code.matchAll(declaration)) {
+    // The initializer ends at the first top-level semicolon, comma or line break
+    const start = match.index + match[0].length;
+    const rest = code.slice(start, start + 500);
+    const [initializer] = splitTopLevel(rest.split('\n')[0], ';');
+    const [first] = splitTopLevel(initializer, ',');
+
+    const value = evaluatePathExpression(first, dir, variables);
+    if (value !== null) {
+      variables.set(match[1], value);
+    }
+  }
+
+  return variables;
+}
+
+/**
+ * Apply replacements to source code; earlier replacements win over later overlapping ones
+ */
+export function applyReplacements(code: string, replacements: SourceReplacement[]): string {
+  const accepted: SourceReplacement[] = [];
+  for (const replacement of replacements) {
+    if (!accepted.some(other => replacement.start < other.end && other.start < replacement.end)) {
+      accepted.push(replacement);
+    }
+  }
+
+  let result = code;
+  for (const replacement of accepted.sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, replacement.start) + replacement.text + result.slice(replacement.end);
+  }
+  return result;
+}
+
+/**
+ * Get the root directory and name of the package containing a file
+ */
+export function getPackageRoot(file: string): { name: string; root: string } | null {
+  const marker = `${sep}node_modules${sep}`;
+  const index = file.lastIndexOf(marker);
+  if (index === -1) return null;
+
+  const parts = file.slice(index + marker.length).split(sep);
+  const nameParts = parts[0].startsWith('@') ? parts.slice(0, 2) : parts.slice(0, 1);
+  return {
+    name: nameParts.join('/'),
+    root: file.slice(0, index + marker.length) + nameParts.join(sep),
+  };
+}
+
+/**
+ * Get the esbuild loader for a source file
+ */
+export function getSourceLoader(file: string): 'js' | 'jsx' | 'ts' | 'tsx' {
+  if (/\.[cm]?ts$/.test(file)) return 'ts';
+  if (file.endsWith('.tsx')) return 'tsx';
+  if (file.endsWith('.jsx')) return 'jsx';
+  return 'js';
+}
+
+/**
+ * Rewrite of a source file's contents, null when nothing changes
+ */
+export type SourceTransform = (args: { path: string; contents: string }) => { contents: string; loader?: Loader } | null;
+
+/**
+ * Source transforms of each build, in plugin order
+ */
+const sourceTransforms = new WeakMap<BuildOptions, { filter: RegExp; transform: SourceTransform }[]>();
+
+/**
+ * Register a rewrite of the source files matching a filter.
+ * esbuild only uses the first onLoad callback returning contents, so the transforms of all plugins run in
+ * one shared onLoad, each receiving the contents left by the previous one.
+ */
+export function addSourceTransform(build: PluginBuild, filter: RegExp, transform: SourceTransform): void {
+  const existing = sourceTransforms.get(build.initialOptions);
+  if (existing) {
+    existing.push({ filter, transform });
+    return;
+  }
+
+  const transforms = [{ filter, transform }];
+  sourceTransforms.set(build.initialOptions, transforms);
+
+  build.onLoad({ filter: /\.[cm]?[jt]sx?$/, namespace: 'file' }, (args) => {
+    const steps = transforms.filter(step => step.filter.test(args.path));
+    if (steps.length === 0) return null;
+
+    let contents = readFileSync(args.path, 'utf8');
+    let loader: Loader = getSourceLoader(args.path);
+    let changed = false;
+
+    for (const step of steps) {
+      const result = step.transform({ path: args.path, contents });
+      if (result) {
+        contents = result.contents;
+        loader = result.loader || loader;
+        changed = true;
+      }
+    }
+
+    return changed ? { contents, loader } : null;
+  });
+}
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { build } from 'esbuild';
+import { createWasmInlinePlugin } from './wasm-inline.js';
+
+const root = mkdtempSync(join(tmpdir(), 'backbundle-wasm-'));
+after(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+const HEADER = [0x00, 0x61, 0x73, 0x6d, 0x01, 0x00, 0x00, 0x00];
+
+/** An empty module, embedded as bytes */
+const plain = Buffer.from(HEADER);
+
+/** A module importing function `f` from ./glue.js, as wasm-bindgen's bundler target does */
+const glue = Buffer.from([
+  ...HEADER,
+  0x01, 0x04, 0x01, 0x60, 0x00, 0x00,
+  0x02, 0x0f, 0x01, 0x09, ...Buffer.from('./glue.js'), 0x01, 0x66, 0x00, 0x00,
+]);
+
+describe('createWasmInlinePlugin', () => {
+  const srcDir = join(root, 'src');
+  const outDir = join(root, 'dist');
+  mkdirSync(srcDir);
+  writeFileSync(join(srcDir, 'plain.wasm'), plain);
+  writeFileSync(join(srcDir, 'glue.wasm'), glue);
+  writeFileSync(join(srcDir, 'glue.js'), 'exports.f = () => {};');
+  writeFileSync(join(srcDir, 'index.js'), [
+    "const fs = require('fs');",
+    "const path = require('path');",
+    "module.exports = [fs.readFileSync(path.join(__dirname, 'plain.wasm')), fs.readFileSync(path.join(__dirname, 'glue.wasm'))];",
+  ].join('\n'));
+
+  it('embeds the bytes of modules read at runtime', async () => {
+    await build({
+      entryPoints: [join(srcDir, 'index.js')],
+      outfile: join(outDir, 'index.js'),
+      bundle: true,
+      platform: 'node',
+      logLevel: 'silent',
+      plugins: [createWasmInlinePlugin({ entry: join(srcDir, 'index.js'), output: join(outDir, 'index.js') })],
+    });
+
+    const [plainBytes] = createRequire(import.meta.url)(join(outDir, 'index.js')) as Buffer[];
+    assert.deepEqual(plainBytes, plain);
+    assert.equal(existsSync(join(outDir, 'assets/wasm/plain.wasm')), false);
+  });
+
+  it('copies modules importing JavaScript glue instead of embedding them', () => {
+    const [, glueBytes] = createRequire(import.meta.url)(join(outDir, 'index.js')) as Buffer[];
+    assert.deepEqual(glueBytes, glue);
+    assert.deepEqual(readFileSync(join(outDir, 'assets/wasm/glue.wasm')), glue);
+    assert.match(readFileSync(join(outDir, 'index.js'), 'utf-8'), /__dirname \+ "\/assets\/wasm\/glue\.wasm"/);
+  });
+});
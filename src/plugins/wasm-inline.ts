@@ -0,0 +1,219 @@
+import type { Plugin } from 'esbuild';
+import { copyFileSync, existsSync, mkdirSync, readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import type { AssetManifest } from '../asset-manifest.js';
+import type { BackbundleConfig } from '../types.js';
+import {
+  addSourceTransform,
+  applyReplacements,
+  collectPathVariables,
+  evaluatePathExpression,
+  findCalls,
+  getPackageRoot,
+  getSourceLoader,
+  READ_FILE_SYNC,
+  splitTopLevel,
+  type SourceReplacement,
+} from './source-rewrite.js';
+
+const NAMESPACE = 'wasm-inline';
+
+const FETCH = /(?<![\w$.])fetch\s*\(/g;
+
+const IMPORT_META_URL = /\bnew\s+URL\s*\(/g;
+
+/**
+ * Get the relative JavaScript files a WebAssembly module imports from (wasm-bindgen's bundler target).
+ * Returns null when it has no imports, imports from anything else or does not compile.
+ */
+function getGlueImports(bytes: Buffer): string[] | null {
+  let imports: WebAssembly.ModuleImportDescriptor[];
+  try {
+    imports = WebAssembly.Module.imports(new WebAssembly.Module(bytes));
+  } catch {
+    return null;
+  }
+
+  const importModules = [...new Set(imports.map(entry => entry.module))];
+  if (importModules.length === 0 || !importModules.every(name => /^\.\.?\/.*\.[cm]?js$/.test(name))) {
+    return null;
+  }
+  return importModules;
+}
+
+/**
+ * Generate the module for an embedded WebAssembly file.
+ * Modules that only import from relative JavaScript files are instantiated with those imports
+ * and export the instance exports, like the ESM integration proposal. All other modules export the bytes.
+ */
+function generateWasmModule(wasmPath: string): string {
+  const bytes = readFileSync(wasmPath);
+  const data = `Buffer.from(${JSON.stringify(bytes.toString('base64'))}, 'base64')`;
+
+  const importModules = getGlueImports(bytes);
+  if (!importModules) {
+    return `module.exports = ${data};\n`;
+  }
+
+  const exports = WebAssembly.Module.exports(new WebAssembly.Module(bytes));
+  const lines = importModules.map((name, i) => `import * as __import${i} from ${JSON.stringify(name)};`);
+  const importObject = importModules.map((name, i) => `${JSON.stringify(name)}: __import${i}`).join(', ');
+  lines.push(
+    `const __instance = new WebAssembly.Instance(new WebAssembly.Module(${data}), { ${importObject} });`,
+    ...exports
+      .filter(entry => /^[A-Za-z_$][\w$]*$/.test(entry.name))
+      .map(entry => `export const ${entry.name} = __instance.exports.${entry.name};`)
+  );
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * WASM inline plugin
+ * Embeds .wasm files in the bundle: direct imports, `readFileSync` of a wasm path,
+ * `fetch(new URL('x.wasm', import.meta.url))` and wasm-bindgen's generated glue.
+ * Runtime reads of modules that import JavaScript glue cannot use the embedded module,
+ * so those files are copied next to the bundle like the copy strategy does.
+ */
+export function createWasmInlinePlugin(config: BackbundleConfig, manifest?: AssetManifest): Plugin {
+  return {
+    name: 'wasm-inline',
+    setup(build) {
+      const packages = config.wasmPackages?.packages;
+      const outputBase = config.wasmPackages?.outputDir || 'assets/wasm';
+      const copies = new Map<string, { packageName: string | null; file: string; outputPath: string }>();
+
+      build.onStart(() => {
+        copies.clear();
+      });
+
+      // Only embed files from the configured packages, if any
+      const shouldInline = (wasmPath: string): boolean => {
+        if (!packages || packages.length === 0) return true;
+        const pkg = getPackageRoot(wasmPath);
+        return pkg !== null && packages.includes(pkg.name);
+      };
+
+      // import wasm from './module.wasm'
+      build.onResolve({ filter: /\.wasm$/ }, (args) => {
+        if (args.namespace === NAMESPACE) return null;
+
+        let wasmPath: string;
+        if (isAbsolute(args.path) || args.path.startsWith('.')) {
+          wasmPath = resolve(args.resolveDir, args.path);
+        } else {
+          try {
+            wasmPath = createRequire(resolve(args.resolveDir, 'index.js')).resolve(args.path);
+          } catch {
+            return null;
+          }
+        }
+
+        if (!existsSync(wasmPath) || !shouldInline(wasmPath)) return null;
+        return { path: wasmPath, namespace: NAMESPACE };
+      });
+
+      build.onLoad({ filter: /.*/, namespace: NAMESPACE }, (args) => ({
+        contents: generateWasmModule(args.path),
+        resolveDir: dirname(args.path),
+        loader: 'js',
+        watchFiles: [args.path],
+      }));
+
+      // Rewrite runtime reads of .wasm files to the embedded bytes
+      addSourceTransform(build, /\.[cm]?[jt]sx?$/, (args) => {
+        const { contents } = args;
+        if (!contents.includes('.wasm')) return null;
+
+        const dir = dirname(args.path);
+        const variables = collectPathVariables(contents, dir);
+        const replacements: SourceReplacement[] = [];
+
+        // Resolve a path expression to an embeddable .wasm file
+        const resolveWasm = (expression: string): string | null => {
+          const value = evaluatePathExpression(expression, dir, variables);
+          if (!value || !isAbsolute(value) || !value.endsWith('.wasm')) return null;
+          return existsSync(value) && shouldInline(value) ? value : null;
+        };
+        const embedded = (wasmPath: string) => `require(${JSON.stringify(wasmPath)})`;
+
+        // Runtime path of the copy of a module that cannot be embedded as bytes
+        const copied = (wasmPath: string): string | null => {
+          if (!getGlueImports(readFileSync(wasmPath))) return null;
+
+          const pkg = getPackageRoot(wasmPath);
+          const file = pkg ? relative(pkg.root, wasmPath).split(sep).join('/') : basename(wasmPath);
+          const outputPath = [outputBase, ...(pkg ? [pkg.name] : []), file].join('/');
+          copies.set(wasmPath, { packageName: pkg?.name ?? null, file, outputPath });
+          return `__dirname + ${JSON.stringify(`/${outputPath}`)}`;
+        };
+
+        // fetch(new URL('module.wasm', import.meta.url))
+        for (const call of findCalls(contents, FETCH)) {
+          const wasmPath = resolveWasm(call.args);
+          if (!wasmPath) continue;
+
+          const copy = copied(wasmPath);
+          const bytes = copy ? `require("fs").readFileSync(${copy})` : embedded(wasmPath);
+          replacements.push({
+            start: call.start,
+            end: call.end,
+            text: `Promise.resolve(new Response(${bytes}, { headers: { 'Content-Type': 'application/wasm' } }))`,
+          });
+        }
+
+        // readFileSync(path.join(__dirname, 'module.wasm'))
+        for (const call of findCalls(contents, READ_FILE_SYNC)) {
+          const [pathArg, ...rest] = splitTopLevel(call.args, ',');
+          const wasmPath = resolveWasm(pathArg);
+          if (!wasmPath) continue;
+
+          const copy = copied(wasmPath);
+          const open = call.end - call.args.length - 2;
+          replacements.push({
+            start: call.start,
+            end: call.end,
+            text: copy ? `${contents.slice(call.start, open)}(${[copy, ...rest].join(', ')})` : embedded(wasmPath),
+          });
+        }
+
+        // Remaining URLs are passed to loaders that accept bytes, e.g. wasm-bindgen's web target init
+        for (const call of findCalls(contents, IMPORT_META_URL)) {
+          const wasmPath = resolveWasm(contents.slice(call.start, call.end));
+          if (!wasmPath) continue;
+
+          const copy = copied(wasmPath);
+          replacements.push({
+            start: call.start,
+            end: call.end,
+            text: copy ? `require("url").pathToFileURL(${copy})` : embedded(wasmPath),
+          });
+        }
+
+        if (replacements.length === 0) {
+          return null;
+        }
+
+        console.log(`🔄 Inlined WASM reads in ${relative(process.cwd(), args.path)}`);
+        return {
+          contents: applyReplacements(contents, replacements),
+          loader: getSourceLoader(args.path),
+        };
+      });
+
+      // Copy the modules that import JavaScript glue next to the bundle
+      build.onEnd((result) => {
+        if (result.errors.length > 0 || copies.size === 0) return;
+
+        const outputDir = build.initialOptions.outdir || dirname(build.initialOptions.outfile || config.output);
+        for (const [source, { packageName, file, outputPath }] of copies) {
+          const target = join(outputDir, outputPath);
+          mkdirSync(dirname(target), { recursive: true });
+          copyFileSync(source, target);
+          if (packageName) manifest?.add(packageName, file, outputPath);
+          console.log(`📦 Copied WASM importing JavaScript glue: ${outputPath}`);
+        }
+      });
+    }
+  };
+}
@@ -0,0 +1,81 @@
+import type { Plugin } from 'esbuild';
+import { join, sep } from 'path';
+import { getImportPackageName } from '../package-manifest.js';
+import {
+  findWorkspacePackages,
+  getWorkspaceEntry,
+  matchPathMappings,
+  readPathMappings,
+  type PathMappings,
+  type WorkspacePackage,
+} from '../workspace.js';
+
+/**
+ * Marks the nested resolutions of workspace files
+ */
+const RESOLVING = { workspacePackage: true };
+
+/**
+ * Workspace packages plugin
+ * Bundles the packages of the monorepo workspace from source, even when `excludePackages` externalizes
+ * npm packages, and resolves imports inside them with their own tsconfig.json path mappings
+ */
+export function createWorkspacePackagesPlugin(): Plugin {
+  return {
+    name: 'workspace-packages',
+    setup(build) {
+      const packages = new Map<string, WorkspacePackage>();
+      const pathMappings = new Map<string, PathMappings | null>();
+
+      for (const pkg of findWorkspacePackages()) {
+        packages.set(pkg.name, pkg);
+      }
+      if (packages.size === 0) return;
+
+      // Innermost workspace package containing a source file
+      const getOwner = (file: string): WorkspacePackage | undefined => {
+        if (file.includes(`${sep}node_modules${sep}`)) return undefined;
+        return [...packages.values()]
+          .filter(pkg => file.startsWith(pkg.dir + sep))
+          .sort((a, b) => b.dir.length - a.dir.length)[0];
+      };
+
+      const getPathMappings = (pkg: WorkspacePackage): PathMappings | null => {
+        if (!pathMappings.has(pkg.dir)) {
+          pathMappings.set(pkg.dir, readPathMappings(join(pkg.dir, 'tsconfig.json')));
+        }
+        return pathMappings.get(pkg.dir) ?? null;
+      };
+
+      build.onResolve({ filter: /^[^./]/ }, async (args) => {
+        if (args.pluginData === RESOLVING) return undefined;
+
+        const resolveFile = async (file: string, resolveDir: string) => {
+          const result = await build.resolve(file, { kind: args.kind, importer: args.importer, resolveDir, pluginData: RESOLVING });
+          return result.errors.length === 0 && !result.external ? result : null;
+        };
+
+        // Imports of workspace packages resolve to their source
+        const packageName = getImportPackageName(args.path);
+        const pkg = packageName ? packages.get(packageName) : undefined;
+        if (pkg && packageName) {
+          const entry = getWorkspaceEntry(pkg, args.path.slice(packageName.length + 1));
+          const result = entry ? await resolveFile(entry.startsWith('.') ? entry : `./${entry}`, pkg.dir) : null;
+          if (result) return { path: result.path, sideEffects: result.sideEffects };
+          return undefined;
+        }
+
+        // Path mappings of the workspace package the importer belongs to
+        const owner = args.importer ? getOwner(args.importer) : undefined;
+        const mappings = owner ? getPathMappings(owner) : null;
+        if (!mappings) return undefined;
+
+        for (const candidate of matchPathMappings(args.path, mappings)) {
+          const result = await resolveFile(candidate, mappings.baseDir);
+          if (result) return { path: result.path, sideEffects: result.sideEffects };
+        }
+        return undefined;
+      });
+    }
+  };
+}
@@ -1,3 +1,7 @@
+import { existsSync, readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { join } from 'path';
+import { pathToFileURL } from 'url';
 import type { FrameworkPreset } from './types.js';
 
 /**
@@ -29,7 +33,9 @@ export const FRAMEWORK_PRESETS: FrameworkPreset[] = [
         'process.env.NODE_ENV': '"production"'
       },
       keepNames: true,
+      decoratorMetadata: true,
       treeShaking: true,
+      optionalDependencies: true,
       minify: true,
       binaryPackages: {
         strategy: 'copy'
@@ -151,16 +157,152 @@ export const FRAMEWORK_PRESETS: FrameworkPreset[] = [
   }
 ];
 
+/**
+ * Presets registered from config files and preset packages, by name
+ */
+const registeredPresets = new Map<string, FrameworkPreset>();
+
+/**
+ * Names presets were resolved by when they differ from the preset name, e.g. 'acme' for a
+ * preset named 'acme-house' in backbundle-preset-acme
+ */
+const presetAliases = new Map<string, string>();
+
+/**
+ * Name of preset packages, e.g. backbundle-preset-acme or @acme/backbundle-preset
+ */
+const PRESET_PACKAGE_PATTERN = /^(@[^/]+\/)?backbundle-preset(-[^/]+)?$/;
+
+/**
+ * Type a preset or the presets exported by a preset package
+ */
+export function definePreset<T extends FrameworkPreset | FrameworkPreset[]>(preset: T): T {
+  return preset;
+}
+
+/**
+ * Register a custom preset, replacing any preset with the same name
+ */
+export function registerPreset(preset: FrameworkPreset): void {
+  registeredPresets.set(preset.name, preset);
+}
+
 /**
  * Get preset configuration by name
  */
 export function getPreset(name: string): FrameworkPreset | undefined {
-  return FRAMEWORK_PRESETS.find(preset => preset.name === name);
+  const presetName = presetAliases.get(name) ?? name;
+  return registeredPresets.get(presetName) ?? FRAMEWORK_PRESETS.find(preset => preset.name === presetName);
 }
 
 /**
  * List all available presets
  */
 export function listPresets(): FrameworkPreset[] {
-  return FRAMEWORK_PRESETS;
+  return [
+    ...FRAMEWORK_PRESETS.filter(preset => !registeredPresets.has(preset.name)),
+    ...registeredPresets.values(),
+  ];
+}
+
+/**
+ * Check whether a package name follows the preset package naming convention
+ */
+export function isPresetPackage(name: string): boolean {
+  return PRESET_PACKAGE_PATTERN.test(name);
+}
+
+function isFrameworkPreset(value: unknown): value is Omit<FrameworkPreset, 'description'> & { description?: string } {
+  return typeof value === 'object' && value !== null &&
+    'name' in value && typeof value.name === 'string' &&
+    'config' in value && typeof value.config === 'object' && value.config !== null &&
+    (!('description' in value) || typeof value.description === 'string');
+}
+
+function getDefaultExport(module: unknown): unknown {
+  return typeof module === 'object' && module !== null && 'default' in module ? module.default : module;
+}
+
+/**
+ * Import a preset package and register its presets.
+ * Returns null when the package is not installed.
+ */
+export async function loadPresetPackage(packageName: string, baseDir: string = process.cwd()): Promise<FrameworkPreset[] | null> {
+  let modulePath: string;
+  try {
+    modulePath = createRequire(join(baseDir, 'package.json')).resolve(packageName);
+  } catch {
+    return null;
+  }
+
+  // CommonJS packages compiled from ES modules nest the default export once more
+  let exported = getDefaultExport(await import(pathToFileURL(modulePath).href));
+  if (!isFrameworkPreset(exported) && !Array.isArray(exported)) {
+    exported = getDefaultExport(exported);
+  }
+
+  const candidates: unknown[] = Array.isArray(exported) ? exported : [exported];
+  const presets = candidates.map(candidate => {
+    if (!isFrameworkPreset(candidate)) {
+      throw new Error(`Preset package ${packageName} must export a preset or an array of presets with a name and a config`);
+    }
+    return { ...candidate, description: candidate.description || `Preset from ${packageName}`, package: packageName };
+  });
+
+  presets.forEach(registerPreset);
+  return presets;
+}
+
+/**
+ * Find the preset packages in the dependencies of a project
+ */
+export function findPresetPackages(baseDir: string = process.cwd()): string[] {
+  const packageJsonPath = join(baseDir, 'package.json');
+  if (!existsSync(packageJsonPath)) return [];
+
+  const packageJson: unknown = JSON.parse(readFileSync(packageJsonPath, 'utf-8'));
+  if (typeof packageJson !== 'object' || packageJson === null) return [];
+
+  const names = ['dependencies', 'devDependencies'].flatMap(key => {
+    const dependencies: unknown = Reflect.get(packageJson, key);
+    return typeof dependencies === 'object' && dependencies !== null ? Object.keys(dependencies) : [];
+  });
+
+  return [...new Set(names.filter(isPresetPackage))].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Load the preset packages in the dependencies of a project
+ */
+export async function loadPresetPackages(baseDir: string = process.cwd()): Promise<FrameworkPreset[]> {
+  const presets: FrameworkPreset[] = [];
+  for (const packageName of findPresetPackages(baseDir)) {
+    presets.push(...(await loadPresetPackage(packageName, baseDir) || []));
+  }
+  return presets;
+}
+
+/**
+ * Get a preset by name, loading it from a preset package when it is not registered yet.
+ * 'acme' is looked up in backbundle-preset-acme, full package names are loaded as is.
+ */
+export async function resolvePreset(name: string, baseDir: string = process.cwd()): Promise<FrameworkPreset | undefined> {
+  const existing = getPreset(name);
+  if (existing) return existing;
+
+  const packageName = isPresetPackage(name) ? name : `backbundle-preset-${name}`;
+  const presets = await loadPresetPackage(packageName, baseDir);
+  if (!presets) return undefined;
+
+  const preset = presets.find(candidate => candidate.name === name);
+  if (preset) return preset;
+
+  if (presets.length > 1) {
+    throw new Error(
+      `Preset package ${packageName} exports several presets, use one of their names: ${presets.map(candidate => candidate.name).join(', ')}`
+    );
+  }
+
+  presetAliases.set(name, presets[0].name);
+  return presets[0];
 }
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import path, { dirname, join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { pathToFileURL } from 'node:url';
+import { runInNewContext } from 'node:vm';
+import { build } from 'esbuild';
+import { applyPackageRecipe } from './binary-handler.js';
+import { createEsmCompatibilityPlugin } from './plugins/esm-compatibility.js';
+import { createRecipeEnvBanner, getRecipe } from './recipes.js';
+
+const root = mkdtempSync(join(tmpdir(), 'backbundle-recipes-'));
+after(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+function writeFile(file: string, contents: string): void {
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, contents);
+}
+
+/**
+ * Run a banner the way a CommonJS bundle does, returning the resulting environment
+ */
+function runBanner(banner: string, env: Record<string, string>): Record<string, string> {
+  runInNewContext(banner, { process: { env }, require: () => path, __dirname: '/app/dist' });
+  return env;
+}
+
+/**
+ * Bundle and import an ESM module starting with the banner, returning the variable the banner sets
+ */
+async function runEsmBanner(name: string, banner: string, withCompatibility: boolean): Promise<string | undefined> {
+  const outfile = join(root, name, 'index.mjs');
+  await build({
+    stdin: { contents: 'export const dir = typeof __dirname;' },
+    bundle: true,
+    outfile,
+    format: 'esm',
+    platform: 'node',
+    banner: { js: banner },
+    plugins: withCompatibility ? [createEsmCompatibilityPlugin()] : [],
+  });
+
+  await import(pathToFileURL(outfile).href);
+  const value = process.env[name];
+  delete process.env[name];
+  return value;
+}
+
+describe('createRecipeEnvBanner', () => {
+  it('returns an empty banner without variables', () => {
+    assert.equal(createRecipeEnvBanner({}), '');
+    assert.equal(createRecipeEnvBanner({}, 'esm'), '');
+  });
+
+  it('sets unset variables to paths relative to the bundle', () => {
+    const banner = createRecipeEnvBanner({ PRISMA_QUERY_ENGINE_LIBRARY: 'libquery_engine.so.node' });
+    assert.deepEqual(runBanner(banner, {}), { PRISMA_QUERY_ENGINE_LIBRARY: path.join('/app/dist', 'libquery_engine.so.node') });
+  });
+
+  it('leaves variables already set in the environment untouched', () => {
+    const banner = createRecipeEnvBanner({ ENGINE: 'engine.node' });
+    assert.deepEqual(runBanner(banner, { ENGINE: '/opt/engine.node' }), { ENGINE: '/opt/engine.node' });
+  });
+
+  it('escapes variable names and file paths', () => {
+    assert.equal(
+      createRecipeEnvBanner({ 'A"B': 'dir/"file".node' }),
+      'if(!process.env["A\\"B"])process.env["A\\"B"]=require("path").join(__dirname,"dir/\\"file\\".node");'
+    );
+  });
+
+  it('imports what it needs in ESM bundles', async () => {
+    const name = 'BACKBUNDLE_TEST_ESM_ENGINE';
+    const banner = createRecipeEnvBanner({ [name]: 'engine.node' }, 'esm');
+
+    assert.equal(await runEsmBanner(name, banner, false), join(root, name, 'engine.node'));
+  });
+
+  it('runs next to the banner of the ESM compatibility plugin', async () => {
+    const name = 'BACKBUNDLE_TEST_ESM_COMPAT_ENGINE';
+    const banner = createRecipeEnvBanner({ [name]: 'engine.node' }, 'esm');
+
+    assert.equal(await runEsmBanner(name, banner, true), join(root, name, 'engine.node'));
+  });
+});
+
+describe('applyPackageRecipe', () => {
+  it('copies the Prisma engine generated next to @prisma/client in the pnpm store', () => {
+    const storeDir = join(root, 'node_modules', '.pnpm', '@prisma+client@5.0.0', 'node_modules');
+    const engine = 'libquery_engine-debian-openssl-3.0.x.so.node';
+    writeFile(join(storeDir, '@prisma', 'client', 'package.json'), JSON.stringify({ name: '@prisma/client' }));
+    writeFile(join(storeDir, '.prisma', 'client', 'package.json'), JSON.stringify({ name: '.prisma/client' }));
+    writeFile(join(storeDir, '.prisma', 'client', 'schema.prisma'), 'datasource db {}');
+    writeFile(join(storeDir, '.prisma', 'client', engine), 'engine');
+    mkdirSync(join(root, 'node_modules', '@prisma'));
+    symlinkSync(join(storeDir, '@prisma', 'client'), join(root, 'node_modules', '@prisma', 'client'));
+
+    const config = { entry: 'src/index.ts', output: join(root, 'dist', 'index.js'), binaryPackages: { strategy: 'copy' as const } };
+    const recipe = getRecipe(config, '@prisma/client');
+    assert.ok(recipe);
+
+    const outputDir = join(root, 'dist');
+    const result = applyPackageRecipe(recipe, config, join(root, 'node_modules'), outputDir);
+
+    assert.deepEqual(result.env, { PRISMA_QUERY_ENGINE_LIBRARY: engine });
+    assert.equal(readFileSync(join(outputDir, engine), 'utf-8'), 'engine');
+    assert.equal(readFileSync(join(outputDir, 'schema.prisma'), 'utf-8'), 'datasource db {}');
+  });
+});
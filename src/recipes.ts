@@ -0,0 +1,87 @@
+import type { BackbundleConfig, PackageRecipe } from './types.js';
+
+/**
+ * Recipes for popular packages whose native files cannot be found by scanning for addons alone
+ */
+export const BUILTIN_RECIPES: PackageRecipe[] = [
+  {
+    name: 'sharp',
+    description: 'libvips image processing, with the binaries in platform-specific @img packages',
+    // sharp requires `@img/sharp-<platform>/sharp.node` through computed paths, so it stays a real package
+    locate: 'node_modules',
+    packages: ['@img/sharp-*'],
+  },
+  {
+    name: 'better-sqlite3',
+    description: 'SQLite bindings loaded through bindings()',
+    locate: 'loader',
+    files: ['build/Release/better_sqlite3.node'],
+  },
+  {
+    name: 'bcrypt',
+    description: 'bcrypt bindings from node-pre-gyp or prebuilds',
+    locate: 'loader',
+    files: ['lib/binding/**/*.node', 'prebuilds/**/*.node', 'build/Release/*.node'],
+  },
+  {
+    name: 'argon2',
+    description: 'argon2 bindings from node-gyp-build prebuilds',
+    locate: 'loader',
+    files: ['prebuilds/**/*.node', 'lib/binding/**/*.node', 'build/Release/*.node'],
+  },
+  {
+    name: 'canvas',
+    description: 'Cairo bindings, with the shared libraries shipped next to the addon',
+    locate: 'loader',
+    files: ['build/Release/**'],
+  },
+  {
+    name: '@prisma/client',
+    description: 'Prisma query engine and schema, next to the bundle',
+    locate: 'env',
+    files: ['.prisma/client:schema.prisma', '.prisma/client:*query_engine*.node'],
+    outputDir: '.',
+    env: {
+      PRISMA_QUERY_ENGINE_LIBRARY: '*query_engine*.node',
+    },
+  },
+];
+
+/**
+ * Get the recipes in effect, with recipes from the configuration replacing built-in recipes of the same name
+ */
+export function getRecipes(config: BackbundleConfig): PackageRecipe[] {
+  const userRecipes = config.binaryPackages?.recipes || [];
+  const overridden = new Set(userRecipes.map(recipe => recipe.name));
+  return [...BUILTIN_RECIPES.filter(recipe => !overridden.has(recipe.name)), ...userRecipes];
+}
+
+/**
+ * Find the recipe for a package
+ */
+export function getRecipe(config: BackbundleConfig, packageName: string): PackageRecipe | undefined {
+  return getRecipes(config).find(recipe => recipe.name === packageName);
+}
+
+/**
+ * Create the startup code setting recipe environment variables to paths relative to the bundle.
+ * Variables already set in the environment are left untouched.
+ * ESM bundles have no `require` or `__dirname` of their own, so the banner imports what it needs
+ * instead of relying on the banner of the ESM compatibility plugin.
+ */
+export function createRecipeEnvBanner(env: Record<string, string>, format: BackbundleConfig['format'] = 'cjs'): string {
+  const entries = Object.entries(env);
+  if (entries.length === 0) return '';
+
+  const esm = format === 'esm';
+  const join = esm ? '__recipePath.join' : 'require("path").join';
+  const dir = esm ? '__recipePath.dirname(__recipeUrl.fileURLToPath(import.meta.url))' : '__dirname';
+  const imports = esm ? 'import*as __recipePath from"path";import*as __recipeUrl from"url";' : '';
+
+  return imports + entries
+    .map(([key, file]) => {
+      const name = JSON.stringify(key);
+      return `if(!process.env[${name}])process.env[${name}]=${join}(${dir},${JSON.stringify(file)});`;
+    })
+    .join('');
+}
@@ -0,0 +1,96 @@
+/**
+ * Backbundle runtime helpers
+ *
+ * Imported by application code as `backbundle/runtime` and bundled with it, so this module
+ * must only depend on Node.js built-ins.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { createRequire } from 'module';
+import { join } from 'path';
+
+/**
+ * Name of the manifest written next to the bundle
+ */
+export const ASSET_MANIFEST_FILE = 'backbundle-manifest.json';
+
+/**
+ * Contents of the asset manifest
+ */
+export interface AssetManifestData {
+  /** Manifest format version */
+  version: 1;
+
+  /** Output paths relative to the bundle directory, by original `<package>/<file>` path */
+  files: Record<string, string>;
+}
+
+const manifests = new Map<string, AssetManifestData | null>();
+
+function isAssetManifestData(obj: unknown): obj is AssetManifestData {
+  return typeof obj === 'object' && obj !== null &&
+    'files' in obj && typeof obj.files === 'object' && obj.files !== null;
+}
+
+/**
+ * Read the manifest in a directory, caching the result
+ */
+function loadManifest(dir: string): AssetManifestData | null {
+  if (!manifests.has(dir)) {
+    let manifest: AssetManifestData | null = null;
+    try {
+      const parsed: unknown = JSON.parse(readFileSync(join(dir, ASSET_MANIFEST_FILE), 'utf-8'));
+      manifest = isAssetManifestData(parsed) ? parsed : null;
+    } catch {
+      // No manifest, e.g. when running from source
+    }
+    manifests.set(dir, manifest);
+  }
+  return manifests.get(dir) ?? null;
+}
+
+/**
+ * Look up a file in the manifest, including files inside copied directories
+ */
+function lookupManifest(manifest: AssetManifestData, key: string): string | null {
+  const segments = key.split('/');
+
+  for (let length = segments.length; length > 0; length--) {
+    const output = manifest.files[segments.slice(0, length).join('/')];
+    if (output !== undefined) {
+      return [output, ...segments.slice(length)].join('/');
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a file of a package, e.g. `resolvePackageFile('some-lib', 'templates/page.hbs')`.
+ *
+ * In a bundle the file is looked up in the asset manifest next to the bundle. Otherwise, or when
+ * the file was not copied, it is resolved from node_modules relative to the working directory.
+ */
+export function resolvePackageFile(packageName: string, file: string = ''): string {
+  const normalized = file.replace(/\\/g, '/').replace(/^\.\//, '').replace(/\/$/, '');
+  const key = normalized ? `${packageName}/${normalized}` : packageName;
+
+  // __dirname is the bundle directory once bundled (the ESM banner defines it too)
+  if (typeof __dirname === 'string') {
+    const manifest = loadManifest(__dirname);
+    const output = manifest && lookupManifest(manifest, key);
+    if (output !== null && output !== undefined) {
+      return join(__dirname, output);
+    }
+  }
+
+  const require = createRequire(join(process.cwd(), 'index.js'));
+  for (const dir of require.resolve.paths(packageName) || []) {
+    const packageDir = join(dir, packageName);
+    if (existsSync(packageDir)) {
+      return join(packageDir, normalized);
+    }
+  }
+
+  throw new Error(`Cannot resolve ${key}: it is not in ${ASSET_MANIFEST_FILE} and the package is not installed`);
+}
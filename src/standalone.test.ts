@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { after, describe, it } from 'node:test';
+import { removeGeneratedNodeModules, StandaloneTracer } from './standalone.js';
+
+const root = mkdtempSync(join(tmpdir(), 'backbundle-standalone-'));
+after(() => {
+  rmSync(root, { recursive: true, force: true });
+});
+
+/**
+ * Create a package in a pnpm-style store, linking its dependencies next to it
+ */
+function addStorePackage(name: string, version: string, dependencies: Record<string, string> = {}): string {
+  const storeDir = join(root, 'node_modules', '.pnpm', `${name}@${version}`, 'node_modules');
+  const packageDir = join(storeDir, name);
+  mkdirSync(packageDir, { recursive: true });
+  writeFileSync(join(packageDir, 'package.json'), JSON.stringify({ name, version, main: 'index.js' }));
+  writeFileSync(join(packageDir, 'index.js'), Object.keys(dependencies).map(dep => `require('${dep}');`).join('\n'));
+
+  for (const [dependency, dependencyVersion] of Object.entries(dependencies)) {
+    symlinkSync(join(root, 'node_modules', '.pnpm', `${dependency}@${dependencyVersion}`, 'node_modules', dependency), join(storeDir, dependency));
+  }
+  return packageDir;
+}
+
+function link(name: string, packageDir: string): void {
+  symlinkSync(packageDir, join(root, 'node_modules', name));
+}
+
+function readVersion(file: string): unknown {
+  const packageJson: unknown = JSON.parse(readFileSync(file, 'utf-8'));
+  return typeof packageJson === 'object' && packageJson !== null && 'version' in packageJson ? packageJson.version : undefined;
+}
+
+describe('StandaloneTracer', () => {
+  addStorePackage('dep', '1.0.0');
+  link('dep', addStorePackage('dep', '2.0.0'));
+  addStorePackage('zzz', '1.0.0', { dep: '1.0.0' });
+  link('zzz', addStorePackage('zzz', '2.0.0'));
+  addStorePackage('shared', '1.0.0', { zzz: '1.0.0' });
+  link('a', addStorePackage('a', '1.0.0', { shared: '1.0.0' }));
+  link('b', addStorePackage('b', '1.0.0', { zzz: '1.0.0' }));
+  link('c', addStorePackage('c', '1.0.0', { zzz: '1.0.0' }));
+
+  it('nests a conflicting version under every package that requires it', () => {
+    const outputDir = join(root, 'dist');
+    const tracer = new StandaloneTracer(root);
+    tracer.traceSpecifiers(['dep', 'zzz', 'a', 'b', 'c']);
+    tracer.copyTo(outputDir);
+
+    assert.equal(readVersion(join(outputDir, 'node_modules/zzz/package.json')), '2.0.0');
+    assert.equal(readVersion(join(outputDir, 'node_modules/b/node_modules/zzz/package.json')), '1.0.0');
+    assert.equal(readVersion(join(outputDir, 'node_modules/c/node_modules/zzz/package.json')), '1.0.0');
+    assert.equal(readVersion(join(outputDir, 'node_modules/shared/node_modules/zzz/package.json')), '1.0.0');
+  });
+
+  it('places the dependencies of nested packages next to each copy', () => {
+    const outputDir = join(root, 'dist');
+
+    assert.equal(readVersion(join(outputDir, 'node_modules/dep/package.json')), '2.0.0');
+    for (const parent of ['b', 'c', 'shared']) {
+      assert.equal(readVersion(join(outputDir, `node_modules/${parent}/node_modules/zzz/node_modules/dep/package.json`)), '1.0.0');
+    }
+  });
+
+  it('rejects another version of a package imported by the bundle', () => {
+    const tracer = new StandaloneTracer(root);
+    tracer.traceSpecifier('b');
+    assert.throws(() => {
+      tracer.traceSpecifier('zzz');
+    }, /Cannot copy zzz/);
+  });
+});
+
+describe('removeGeneratedNodeModules', () => {
+  it('removes the node_modules generated by an earlier build', () => {
+    const outputDir = join(root, 'stale');
+    const tracer = new StandaloneTracer(root);
+    tracer.traceSpecifier('zzz');
+    tracer.copyTo(outputDir);
+
+    removeGeneratedNodeModules(outputDir);
+    assert.equal(existsSync(join(outputDir, 'node_modules')), false);
+  });
+
+  it('leaves node_modules directories it did not generate', () => {
+    const file = join(root, 'project', 'node_modules', 'kept', 'package.json');
+    mkdirSync(dirname(file), { recursive: true });
+    writeFileSync(file, '{}');
+
+    removeGeneratedNodeModules(join(root, 'project'));
+    assert.equal(existsSync(file), true);
+  });
+});
@@ -0,0 +1,577 @@
+import type { Metafile } from 'esbuild';
+import { copyFileSync, existsSync, mkdirSync, readFileSync, realpathSync, rmSync, statSync, writeFileSync } from 'fs';
+import { glob } from 'glob';
+import { dirname, extname, join, relative, resolve, sep } from 'path';
+import type { AssetManifest } from './asset-manifest.js';
+import { filterBinaryFiles, type BinaryTarget } from './binary-handler.js';
+import { getImportPackageName } from './package-manifest.js';
+
+/**
+ * A package found while tracing
+ */
+interface TracedPackage {
+  /** Package name */
+  name: string;
+
+  /** Real path of the package directory (symlinks resolved) */
+  realDir: string;
+
+  /** Directories the package is copied to, relative to the output node_modules parent */
+  targetDirs: string[];
+
+  /** Real paths of the files to copy */
+  files: Set<string>;
+
+  /** Packages required by this package, placed so they resolve from each of its directories */
+  dependencies: Set<TracedPackage>;
+}
+
+/**
+ * Result of tracing and copying the standalone node_modules tree
+ */
+export interface StandaloneResult {
+  /** Names of the packages copied into the output */
+  packages: string[];
+
+  /** Number of files copied */
+  files: number;
+
+  /** Specifiers that could not be resolved */
+  unresolved: string[];
+}
+
+/**
+ * File marking a node_modules directory as generated, so later builds may replace it
+ */
+const GENERATED_MARKER = '.backbundle';
+
+/**
+ * Extensions tried when resolving a file without extension
+ */
+const RESOLVE_EXTENSIONS = ['.js', '.cjs', '.mjs', '.json', '.node'];
+
+/**
+ * Files that are traced for further requires
+ */
+const TRACEABLE_EXTENSIONS = ['.js', '.cjs', '.mjs'];
+
+/**
+ * Patterns for module specifiers referenced by a JavaScript file
+ */
+const SPECIFIER_PATTERNS = [
+  /\brequire\s*\(\s*(['"])([^'"\n]+)\1\s*\)/g,
+  /\brequire\.resolve\s*\(\s*(['"])([^'"\n]+)\1/g,
+  /\bimport\s*\(\s*(['"])([^'"\n]+)\1\s*\)/g,
+  /\b(?:import|export)\s[^;'"]*?\bfrom\s*(['"])([^'"\n]+)\1/g,
+  /\bimport\s*(['"])([^'"\n]+)\1/g,
+];
+
+/**
+ * Patterns for package-relative file references (file reads, asset lookups)
+ */
+const FILE_REFERENCE_PATTERNS = [
+  // path.join(__dirname, 'a', 'b') / path.resolve(__dirname, '../a')
+  /\b(?:join|resolve)\s*\(\s*__dirname\s*((?:,\s*(['"])[^'"\n]*\2\s*)+)\)/g,
+  // __dirname + '/a'
+  /__dirname\s*\+\s*(['"])([^'"\n]+)\1/g,
+  // new URL('./a', import.meta.url)
+  /new\s+URL\s*\(\s*(['"])([^'"\n]+)\1\s*,\s*import\.meta\.url\s*\)/g,
+];
+
+/**
+ * Native addon locations that are always copied for traced packages
+ */
+const NATIVE_PATTERNS = ['**/*.node', 'prebuilds/**', 'build/Release/**'];
+
+/**
+ * Check whether a path exists and is a file
+ */
+function isFile(filePath: string): boolean {
+  try {
+    return statSync(filePath).isFile();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check whether a path exists and is a directory
+ */
+function isDirectory(filePath: string): boolean {
+  try {
+    return statSync(filePath).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read a package.json as a plain object
+ */
+function readPackageJson(packageDir: string): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(readFileSync(join(packageDir, 'package.json'), 'utf-8'));
+    return typeof parsed === 'object' && parsed !== null ? { ...parsed } : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Collect all target paths from a package.json "exports" value
+ */
+function collectExportTargets(value: unknown, targets: string[], wildcards = false): void {
+  if (typeof value === 'string') {
+    if ((wildcards || !value.includes('*')) && !value.endsWith('.d.ts')) targets.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach((item: unknown) => {
+      collectExportTargets(item, targets, wildcards);
+    });
+  } else if (typeof value === 'object' && value !== null) {
+    for (const [key, item] of Object.entries(value)) {
+      if (key === 'types' || key === 'browser') continue;
+      collectExportTargets(item, targets, wildcards);
+    }
+  }
+}
+
+/**
+ * Resolve the targets of a package subpath (".", "./sub") through the "exports" field
+ */
+function resolveExports(exportsField: unknown, subpath: string): string[] | null {
+  if (exportsField === undefined) return null;
+
+  const targets: string[] = [];
+  if (
+    typeof exportsField !== 'object' ||
+    exportsField === null ||
+    Array.isArray(exportsField) ||
+    !Object.keys(exportsField).some(key => key.startsWith('.'))
+  ) {
+    // Conditions or a single target for the package root
+    if (subpath === '.') collectExportTargets(exportsField, targets);
+    return targets;
+  }
+
+  const subpaths = new Map<string, unknown>(Object.entries(exportsField));
+  if (subpaths.has(subpath)) {
+    collectExportTargets(subpaths.get(subpath), targets);
+    return targets;
+  }
+
+  // Wildcard subpaths such as "./features/*"
+  for (const [key, value] of subpaths) {
+    const starIndex = key.indexOf('*');
+    if (starIndex === -1) continue;
+
+    const prefix = key.slice(0, starIndex);
+    const suffix = key.slice(starIndex + 1);
+    if (subpath.startsWith(prefix) && subpath.endsWith(suffix)) {
+      const match = subpath.slice(prefix.length, subpath.length - suffix.length);
+      const patterns: string[] = [];
+      collectExportTargets(value, patterns, true);
+      targets.push(...patterns.map(pattern => pattern.replace(/\*/g, match)));
+      return targets;
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Resolve a file path the way require() does (extensions, directory index, package main)
+ */
+function resolveFile(basePath: string): string | null {
+  if (isFile(basePath)) return basePath;
+
+  for (const extension of RESOLVE_EXTENSIONS) {
+    if (isFile(basePath + extension)) return basePath + extension;
+  }
+
+  if (isDirectory(basePath)) {
+    const main = readPackageJson(basePath).main;
+    if (typeof main === 'string') {
+      const resolved = resolveFile(join(basePath, main));
+      if (resolved) return resolved;
+    }
+    for (const extension of RESOLVE_EXTENSIONS) {
+      const index = join(basePath, `index${extension}`);
+      if (isFile(index)) return index;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find a package directory by walking up node_modules directories, resolving symlinks
+ */
+export function findPackageDir(packageName: string, fromDir: string): string | null {
+  let dir = fromDir;
+
+  while (true) {
+    // Skip looking inside node_modules/node_modules
+    if (!dir.endsWith(`${sep}node_modules`)) {
+      const candidate = join(dir, 'node_modules', packageName);
+      if (existsSync(join(candidate, 'package.json'))) {
+        return realpathSync(candidate);
+      }
+    }
+
+    const parent = dirname(dir);
+    if (parent === dir) return null;
+    dir = parent;
+  }
+}
+
+/**
+ * Split a bare specifier into package name and subpath ("." or "./sub")
+ */
+function splitSpecifier(specifier: string, packageName: string): string {
+  const rest = specifier.slice(packageName.length);
+  return rest ? `.${rest}` : '.';
+}
+
+/**
+ * Traces the files needed at runtime by external packages and copies them into the output
+ */
+export class StandaloneTracer {
+  private packages = new Map<string, TracedPackage>();
+  /** Real package directory copied to each target directory */
+  private targets = new Map<string, string>();
+  private visited = new Set<string>();
+  private queue: { file: string; pkg: TracedPackage }[] = [];
+  private unresolved = new Set<string>();
+  private baseDir: string;
+  private binaryTarget: BinaryTarget | undefined;
+
+  constructor(baseDir: string = process.cwd(), binaryTarget?: BinaryTarget) {
+    this.baseDir = baseDir;
+    this.binaryTarget = binaryTarget;
+  }
+
+  /**
+   * Trace a bare specifier imported by the bundle
+   */
+  traceSpecifier(specifier: string): void {
+    this.traceSpecifiers([specifier]);
+  }
+
+  /**
+   * Trace bare specifiers imported by the bundle.
+   * They are all resolved before their dependencies, so the bundle's own imports claim the top-level slots.
+   */
+  traceSpecifiers(specifiers: string[]): void {
+    for (const specifier of specifiers) {
+      this.resolveBareSpecifier(specifier, this.baseDir, null);
+    }
+    this.drain();
+  }
+
+  /**
+   * Add every file of a package, for packages whose files are located at runtime rather than required
+   */
+  tracePackageDirectory(name: string, dir: string): void {
+    const pkg = this.addPackage(name, realpathSync(dir), null);
+    this.addDirectory(pkg.realDir, pkg);
+    this.drain();
+  }
+
+  /**
+   * Copy all traced files into the output directory, recording top-level packages in the manifest
+   */
+  copyTo(outputDir: string, manifest?: AssetManifest): StandaloneResult {
+    let files = 0;
+
+    for (const pkg of this.packages.values()) {
+      const topLevel = join('node_modules', pkg.name);
+      if (pkg.targetDirs.includes(topLevel)) {
+        manifest?.add(pkg.name, '', topLevel);
+      }
+
+      for (const targetDir of pkg.targetDirs) {
+        for (const file of pkg.files) {
+          const targetPath = join(outputDir, targetDir, relative(pkg.realDir, file));
+          mkdirSync(dirname(targetPath), { recursive: true });
+          copyFileSync(file, targetPath);
+          files++;
+        }
+      }
+    }
+
+    // Never mark the project's own node_modules, when the bundle is written next to it
+    if (this.packages.size > 0 && resolve(outputDir) !== resolve(this.baseDir)) {
+      writeFileSync(join(outputDir, 'node_modules', GENERATED_MARKER), '');
+    }
+
+    return {
+      packages: [...new Set([...this.packages.values()].map(pkg => pkg.name))].sort((a, b) => a.localeCompare(b)),
+      files,
+      unresolved: [...this.unresolved],
+    };
+  }
+
+  /**
+   * Register a package, choosing where it lands in the output node_modules tree
+   */
+  private addPackage(name: string, realDir: string, parent: TracedPackage | null): TracedPackage {
+    const existing = this.packages.get(realDir);
+    if (existing) {
+      this.placeFrom(existing, parent);
+      return existing;
+    }
+
+    const pkg: TracedPackage = { name, realDir, targetDirs: [], files: new Set(), dependencies: new Set() };
+    this.packages.set(realDir, pkg);
+    this.placeFrom(pkg, parent);
+
+    this.addFile(join(realDir, 'package.json'), pkg);
+
+    // Native addons are loaded through dynamic paths that cannot be traced
+    let nativeFiles = glob.sync(NATIVE_PATTERNS, { cwd: realDir, nodir: true, ignore: ['node_modules/**'] });
+    if (this.binaryTarget) {
+      nativeFiles = filterBinaryFiles(name, nativeFiles, this.binaryTarget).kept;
+    }
+    for (const file of nativeFiles) {
+      this.addFile(join(realDir, file), pkg);
+    }
+
+    return pkg;
+  }
+
+  /**
+   * Place a package so it resolves from every directory of the package requiring it,
+   * or from the top level for packages imported by the bundle
+   */
+  private placeFrom(pkg: TracedPackage, parent: TracedPackage | null): void {
+    if (parent) {
+      parent.dependencies.add(pkg);
+      for (const fromDir of parent.targetDirs) {
+        this.placeAt(pkg, fromDir);
+      }
+    } else {
+      this.placeAt(pkg, '');
+    }
+  }
+
+  /**
+   * Make a package resolvable from a target directory ('' for the bundle itself): hoisted to the top level
+   * when it is free, nested in the directory's node_modules when another version is visible from there
+   */
+  private placeAt(pkg: TracedPackage, fromDir: string): void {
+    const visible = this.resolveTarget(pkg.name, fromDir);
+    if (visible === pkg.realDir) return;
+
+    const topLevel = join('node_modules', pkg.name);
+    const targetDir = !visible && !this.targets.has(topLevel) ? topLevel : join(fromDir, 'node_modules', pkg.name);
+    const owner = this.targets.get(targetDir);
+
+    // Packages imported by the bundle are resolved from the top level, so it cannot hold another version
+    if (owner && owner !== pkg.realDir) {
+      throw new Error(`Cannot copy ${pkg.name} from ${pkg.realDir} to ${targetDir}, which already holds ${owner}`);
+    }
+
+    this.targets.set(targetDir, pkg.realDir);
+    pkg.targetDirs.push(targetDir);
+
+    // Dependencies found so far must also resolve from the new copy
+    for (const dependency of pkg.dependencies) {
+      this.placeAt(dependency, targetDir);
+    }
+  }
+
+  /**
+   * Find the real directory of the package a target directory resolves a name to, the way Node.js walks up
+   * node_modules directories
+   */
+  private resolveTarget(name: string, fromDir: string): string | undefined {
+    let dir = fromDir;
+
+    while (true) {
+      const owner = this.targets.get(join(dir, 'node_modules', name));
+      if (owner) return owner;
+      if (!dir) return undefined;
+
+      // Move up to the enclosing package, e.g. "node_modules/a/node_modules/b" -> "node_modules/a"
+      const index = dir.lastIndexOf(`${sep}node_modules${sep}`);
+      dir = index === -1 ? '' : dir.slice(0, index);
+    }
+  }
+
+  /**
+   * Add a file to a package, queueing JavaScript files for tracing
+   */
+  private addFile(file: string, pkg: TracedPackage): void {
+    if (pkg.files.has(file)) return;
+    pkg.files.add(file);
+
+    if (TRACEABLE_EXTENSIONS.includes(extname(file)) && !this.visited.has(file)) {
+      this.visited.add(file);
+      this.queue.push({ file, pkg });
+    }
+  }
+
+  /**
+   * Add a directory referenced by a file read, skipping nested node_modules
+   */
+  private addDirectory(dir: string, pkg: TracedPackage): void {
+    for (const file of glob.sync('**/*', { cwd: dir, nodir: true, dot: true, ignore: ['**/node_modules/**'] })) {
+      this.addFile(join(dir, file), pkg);
+    }
+  }
+
+  /**
+   * Resolve a bare specifier from a directory and add the target files
+   */
+  private resolveBareSpecifier(specifier: string, fromDir: string, parent: TracedPackage | null): void {
+    const packageName = getImportPackageName(specifier);
+    if (!packageName) return;
+
+    const packageDir = findPackageDir(packageName, fromDir);
+    if (!packageDir) {
+      this.unresolved.add(specifier);
+      return;
+    }
+
+    const pkg = this.addPackage(packageName, packageDir, parent);
+    const subpath = splitSpecifier(specifier, packageName);
+    const packageJson = readPackageJson(packageDir);
+    const exportTargets = resolveExports(packageJson.exports, subpath);
+
+    const candidates: string[] = [];
+    if (exportTargets && exportTargets.length > 0) {
+      candidates.push(...exportTargets);
+    } else if (subpath === '.') {
+      for (const field of ['main', 'module']) {
+        const value = packageJson[field];
+        if (typeof value === 'string') candidates.push(value);
+      }
+      candidates.push('./index');
+    } else {
+      candidates.push(subpath);
+    }
+
+    let resolvedAny = false;
+    for (const candidate of candidates) {
+      const resolved = resolveFile(join(packageDir, candidate));
+      if (resolved) {
+        this.addFile(resolved, pkg);
+        resolvedAny = true;
+      }
+    }
+
+    if (!resolvedAny) {
+      this.unresolved.add(specifier);
+    }
+  }
+
+  /**
+   * Trace queued files until no new files are found
+   */
+  private drain(): void {
+    while (this.queue.length > 0) {
+      const { file, pkg } = this.queue.shift()!;
+
+      let contents: string;
+      try {
+        contents = readFileSync(file, 'utf-8');
+      } catch {
+        continue;
+      }
+
+      const fileDir = dirname(file);
+
+      for (const pattern of SPECIFIER_PATTERNS) {
+        for (const match of contents.matchAll(pattern)) {
+          const specifier = match[2];
+          if (specifier.startsWith('.') || specifier.startsWith('/')) {
+            const resolved = resolveFile(resolve(fileDir, specifier));
+            if (resolved && resolved.startsWith(pkg.realDir + sep)) {
+              this.addFile(resolved, pkg);
+            }
+          } else {
+            this.resolveBareSpecifier(specifier, fileDir, pkg);
+          }
+        }
+      }
+
+      for (const pattern of FILE_REFERENCE_PATTERNS) {
+        for (const match of contents.matchAll(pattern)) {
+          const segments = pattern === FILE_REFERENCE_PATTERNS[0]
+            ? [...match[1].matchAll(/(['"])([^'"\n]*)\1/g)].map(part => part[2])
+            : [match[2]];
+          this.addReferencedPath(resolve(fileDir, ...segments), pkg);
+        }
+      }
+    }
+  }
+
+  /**
+   * Add a package-relative file or directory referenced by a file read
+   */
+  private addReferencedPath(target: string, pkg: TracedPackage): void {
+    // Only copy files that belong to the package itself
+    if (!target.startsWith(pkg.realDir + sep)) return;
+
+    if (isFile(target)) {
+      this.addFile(target, pkg);
+    } else if (isDirectory(target) && target !== pkg.realDir) {
+      this.addDirectory(target, pkg);
+    }
+  }
+}
+
+/**
+ * Remove the node_modules directory an earlier build generated in the output directory.
+ * Directories without the marker, such as a project's own node_modules, are left alone.
+ */
+export function removeGeneratedNodeModules(outputDir: string): void {
+  const nodeModulesDir = join(outputDir, 'node_modules');
+  if (existsSync(join(nodeModulesDir, GENERATED_MARKER))) {
+    rmSync(nodeModulesDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Collect the bare specifiers of external imports in the bundle
+ */
+export function collectExternalImports(metafile: Metafile): string[] {
+  const specifiers = new Set<string>();
+
+  for (const output of Object.values(metafile.outputs)) {
+    for (const imported of output.imports) {
+      if (imported.external && getImportPackageName(imported.path)) {
+        specifiers.add(imported.path);
+      }
+    }
+  }
+
+  return [...specifiers].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Trace the external packages imported by the bundle, and the given packages,
+ * and copy the minimal node_modules tree into the output
+ */
+export function createStandaloneOutput(
+  metafile: Metafile,
+  outputDir: string,
+  baseDir: string = process.cwd(),
+  binaryTarget?: BinaryTarget,
+  manifest?: AssetManifest,
+  packages: string[] = []
+): StandaloneResult {
+  const tracer = new StandaloneTracer(baseDir, binaryTarget);
+
+  // Copied native packages are traced too, so their loaders and dependencies are deployed with the addons
+  const specifiers = [...collectExternalImports(metafile), ...packages];
+  tracer.traceSpecifiers([...new Set(specifiers)]);
+
+  const result = tracer.copyTo(outputDir, manifest);
+
+  for (const specifier of result.unresolved) {
+    console.warn(`⚠️  Could not resolve external import for standalone output: ${specifier}`);
+  }
+
+  return result;
+}
@@ -0,0 +1,374 @@
+import type { Metafile } from 'esbuild';
+import { readFileSync, writeFileSync } from 'fs';
+import { basename, resolve } from 'path';
+import { gzipSync } from 'zlib';
+import { getPackageName } from './analyzer.js';
+
+/**
+ * Node of the treemap hierarchy
+ */
+export interface TreemapNode {
+  /** Display name of the node */
+  name: string;
+
+  /** Bytes contributed to the output */
+  bytes: number;
+
+  /** Estimated gzip size of the contributed bytes */
+  gzip: number;
+
+  /** Child nodes, absent for modules */
+  children?: TreemapNode[];
+}
+
+/**
+ * Options for the HTML treemap report
+ */
+export interface TreemapOptions {
+  /** Directory the metafile paths are relative to, defaults to process.cwd() */
+  baseDir?: string;
+
+  /** Report title, defaults to the name of the first output file */
+  title?: string;
+}
+
+/**
+ * Name of the group holding the project's own source files
+ */
+const OWN_CODE_GROUP = '(own code)';
+
+/**
+ * Estimate the gzip compression ratio of a file, or null if it cannot be read
+ */
+function getGzipRatio(filePath: string): number | null {
+  try {
+    const contents = readFileSync(filePath);
+    if (contents.length === 0) return null;
+    return gzipSync(contents).length / contents.length;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Insert a module into the tree under the given path segments
+ */
+function insertNode(parent: TreemapNode, segments: string[], bytes: number, gzip: number): void {
+  parent.bytes += bytes;
+  parent.gzip += gzip;
+
+  const [name, ...rest] = segments;
+  parent.children = parent.children || [];
+
+  if (rest.length === 0) {
+    parent.children.push({ name, bytes, gzip });
+    return;
+  }
+
+  let child = parent.children.find(node => node.name === name && node.children);
+  if (!child) {
+    child = { name, bytes: 0, gzip: 0, children: [] };
+    parent.children.push(child);
+  }
+  insertNode(child, rest, bytes, gzip);
+}
+
+/**
+ * Build the treemap hierarchy from an esbuild metafile, grouped by npm package
+ */
+export function buildTreemap(metafile: Metafile, options: TreemapOptions = {}): TreemapNode {
+  const baseDir = options.baseDir || process.cwd();
+  const root: TreemapNode = { name: 'bundle', bytes: 0, gzip: 0, children: [] };
+  const groups = new Map<string, TreemapNode>();
+
+  // Overall compression ratio of the output, used for inputs that cannot be read
+  let outputBytes = 0;
+  let outputGzip = 0;
+  for (const outputPath of Object.keys(metafile.outputs)) {
+    if (outputPath.endsWith('.map')) continue;
+    try {
+      const contents = readFileSync(resolve(baseDir, outputPath));
+      outputBytes += contents.length;
+      outputGzip += gzipSync(contents).length;
+    } catch {
+      // Output might have been removed since the build
+    }
+  }
+  const fallbackRatio = outputBytes > 0 ? outputGzip / outputBytes : 1;
+
+  for (const [outputPath, output] of Object.entries(metafile.outputs)) {
+    if (outputPath.endsWith('.map')) continue;
+
+    for (const [inputPath, input] of Object.entries(output.inputs)) {
+      if (input.bytesInOutput === 0) continue;
+
+      const modulePath = inputPath.replace(/^[a-z-]+:/i, '').replace(/\\/g, '/');
+      const packageName = getPackageName(modulePath);
+      const groupName = packageName || OWN_CODE_GROUP;
+
+      let segments: string[];
+      if (packageName) {
+        const marker = `node_modules/${packageName}/`;
+        segments = modulePath.slice(modulePath.lastIndexOf(marker) + marker.length).split('/');
+      } else {
+        segments = modulePath.split('/').filter(segment => segment !== '' && segment !== '.');
+      }
+
+      const ratio = getGzipRatio(resolve(baseDir, modulePath)) ?? fallbackRatio;
+      const gzip = Math.round(input.bytesInOutput * ratio);
+
+      let group = groups.get(groupName);
+      if (!group) {
+        group = { name: groupName, bytes: 0, gzip: 0, children: [] };
+        groups.set(groupName, group);
+      }
+
+      root.bytes += input.bytesInOutput;
+      root.gzip += gzip;
+      insertNode(group, segments, input.bytesInOutput, gzip);
+    }
+  }
+
+  root.children = [...groups.values()];
+  return root;
+}
+
+/**
+ * Serialize data for embedding inside a <script> element
+ */
+function serializeForScript(data: unknown): string {
+  return JSON.stringify(data)
+    .replace(/</g, '\\u003c')
+    .replace(/\u2028/g, '\\u2028')
+    .replace(/\u2029/g, '\\u2029');
+}
+
+/**
+ * Escape text for use in HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Generate a self-contained HTML treemap report from an esbuild metafile
+ */
+export function generateTreemapHtml(metafile: Metafile, options: TreemapOptions = {}): string {
+  const tree = buildTreemap(metafile, options);
+  const firstOutput = Object.keys(metafile.outputs).find(output => !output.endsWith('.map'));
+  const title = options.title || `Bundle report: ${firstOutput ? basename(firstOutput) : 'bundle'}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${TREEMAP_CSS}</style>
+</head>
+<body>
+<header>
+  <h1>${escapeHtml(title)}</h1>
+  <nav id="breadcrumbs"></nav>
+  <div id="totals"></div>
+</header>
+<main id="treemap"></main>
+<div id="tooltip"></div>
+<script type="application/json" id="treemap-data">${serializeForScript(tree)}</script>
+<script>${TREEMAP_SCRIPT}</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * Write the HTML treemap report to a file
+ */
+export function writeTreemapReport(metafile: Metafile, filePath: string, options: TreemapOptions = {}): void {
+  writeFileSync(filePath, generateTreemapHtml(metafile, options), 'utf-8');
+}
+
+const TREEMAP_CSS = `
+* { box-sizing: border-box; }
+body { margin: 0; font: 13px/1.4 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; color: #1f2328; background: #f6f8fa; display: flex; flex-direction: column; height: 100vh; }
+header { padding: 12px 16px; background: #fff; border-bottom: 1px solid #d0d7de; }
+h1 { margin: 0 0 6px; font-size: 16px; }
+#breadcrumbs span { cursor: pointer; color: #0969da; }
+#breadcrumbs span:last-child { cursor: default; color: inherit; font-weight: 600; }
+#breadcrumbs span + span::before { content: " / "; color: #8c959f; }
+#totals { margin-top: 4px; color: #57606a; }
+#treemap { position: relative; flex: 1; margin: 8px; overflow: hidden; }
+.node { position: absolute; overflow: hidden; border: 1px solid rgba(255, 255, 255, 0.9); border-radius: 2px; cursor: pointer; }
+.node > .label { padding: 2px 4px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; font-size: 11px; color: rgba(0, 0, 0, 0.8); pointer-events: none; }
+.node.leaf { cursor: default; }
+.node:hover { outline: 2px solid #1f2328; z-index: 1; }
+#tooltip { position: fixed; display: none; padding: 6px 8px; background: #1f2328; color: #fff; border-radius: 4px; font-size: 12px; pointer-events: none; z-index: 10; max-width: 480px; word-break: break-all; }
+`;
+
+const TREEMAP_SCRIPT = `
+(function () {
+  var root = JSON.parse(document.getElementById('treemap-data').textContent);
+  var container = document.getElementById('treemap');
+  var breadcrumbs = document.getElementById('breadcrumbs');
+  var totals = document.getElementById('totals');
+  var tooltip = document.getElementById('tooltip');
+  var HEADER = 16;
+  var MIN_SIZE = 24;
+  var current = root;
+
+  (function link(node, parent) {
+    node.parent = parent;
+    (node.children || []).forEach(function (child) { link(child, node); });
+  })(root, null);
+
+  function formatBytes(bytes) {
+    if (bytes === 0) return '0 B';
+    var sizes = ['B', 'KB', 'MB', 'GB'];
+    var i = Math.min(Math.floor(Math.log(bytes) / Math.log(1024)), sizes.length - 1);
+    return parseFloat((bytes / Math.pow(1024, i)).toFixed(2)) + ' ' + sizes[i];
+  }
+
+  function pathOf(node) {
+    var names = [];
+    for (var n = node; n && n.parent; n = n.parent) names.unshift(n.name);
+    return names.join('/');
+  }
+
+  function hue(name) {
+    var hash = 0;
+    for (var i = 0; i < name.length; i++) hash = (hash * 31 + name.charCodeAt(i)) | 0;
+    return Math.abs(hash) % 360;
+  }
+
+  function groupOf(node) {
+    var n = node;
+    while (n.parent && n.parent.parent) n = n.parent;
+    return n;
+  }
+
+  function worst(row, side) {
+    var sum = 0, max = 0, min = Infinity;
+    row.forEach(function (item) { sum += item.area; max = Math.max(max, item.area); min = Math.min(min, item.area); });
+    return Math.max((side * side * max) / (sum * sum), (sum * sum) / (side * side * min));
+  }
+
+  function placeRow(row, rect, out) {
+    var sum = row.reduce(function (total, item) { return total + item.area; }, 0);
+    if (rect.w >= rect.h) {
+      var rowWidth = sum / rect.h, y = rect.y;
+      row.forEach(function (item) {
+        var h = item.area / rowWidth;
+        out.push({ node: item.node, x: rect.x, y: y, w: rowWidth, h: h });
+        y += h;
+      });
+      return { x: rect.x + rowWidth, y: rect.y, w: rect.w - rowWidth, h: rect.h };
+    }
+    var rowHeight = sum / rect.w, x = rect.x;
+    row.forEach(function (item) {
+      var w = item.area / rowHeight;
+      out.push({ node: item.node, x: x, y: rect.y, w: w, h: rowHeight });
+      x += w;
+    });
+    return { x: rect.x, y: rect.y + rowHeight, w: rect.w, h: rect.h - rowHeight };
+  }
+
+  function squarify(nodes, rect) {
+    var total = nodes.reduce(function (sum, node) { return sum + node.bytes; }, 0);
+    if (total === 0 || rect.w <= 0 || rect.h <= 0) return [];
+    var scale = (rect.w * rect.h) / total;
+    var items = nodes.filter(function (node) { return node.bytes > 0; })
+      .sort(function (a, b) { return b.bytes - a.bytes; })
+      .map(function (node) { return { node: node, area: node.bytes * scale }; });
+    var out = [], row = [];
+    while (items.length > 0) {
+      var side = Math.min(rect.w, rect.h);
+      if (row.length === 0 || worst(row.concat(items[0]), side) <= worst(row, side)) {
+        row.push(items.shift());
+      } else {
+        rect = placeRow(row, rect, out);
+        row = [];
+      }
+    }
+    if (row.length > 0) placeRow(row, rect, out);
+    return out;
+  }
+
+  function renderNodes(parentEl, nodes, rect, depth) {
+    squarify(nodes, rect).forEach(function (box) {
+      var node = box.node;
+      var el = document.createElement('div');
+      var lightness = Math.min(88, 62 + depth * 8);
+      el.className = 'node' + (node.children ? '' : ' leaf');
+      el.style.left = box.x + 'px';
+      el.style.top = box.y + 'px';
+      el.style.width = box.w + 'px';
+      el.style.height = box.h + 'px';
+      el.style.background = 'hsl(' + hue(groupOf(node).name) + ', 55%, ' + lightness + '%)';
+
+      if (box.w > 30 && box.h > 14) {
+        var label = document.createElement('div');
+        label.className = 'label';
+        label.textContent = node.name + ' ' + formatBytes(node.bytes);
+        el.appendChild(label);
+      }
+
+      el.addEventListener('mousemove', function (event) {
+        event.stopPropagation();
+        var percent = root.bytes > 0 ? ((node.bytes / root.bytes) * 100).toFixed(1) : '0.0';
+        tooltip.innerHTML = '';
+        [pathOf(node), 'Raw: ' + formatBytes(node.bytes) + ' (' + percent + '%)', 'Gzip: ~' + formatBytes(node.gzip)]
+          .forEach(function (line, index) {
+            var div = document.createElement('div');
+            div.textContent = line;
+            if (index === 0) div.style.fontWeight = '600';
+            tooltip.appendChild(div);
+          });
+        tooltip.style.display = 'block';
+        tooltip.style.left = Math.min(event.clientX + 12, window.innerWidth - tooltip.offsetWidth - 8) + 'px';
+        tooltip.style.top = Math.min(event.clientY + 12, window.innerHeight - tooltip.offsetHeight - 8) + 'px';
+      });
+      el.addEventListener('click', function (event) {
+        event.stopPropagation();
+        if (node.children) zoom(node);
+      });
+
+      parentEl.appendChild(el);
+
+      if (node.children && box.w > MIN_SIZE * 2 && box.h > HEADER + MIN_SIZE) {
+        renderNodes(el, node.children, { x: 1, y: HEADER, w: box.w - 4, h: box.h - HEADER - 3 }, depth + 1);
+      }
+    });
+  }
+
+  function zoom(node) {
+    current = node;
+    render();
+  }
+
+  function render() {
+    container.innerHTML = '';
+    renderNodes(container, current.children || [current], { x: 0, y: 0, w: container.clientWidth, h: container.clientHeight }, 0);
+
+    breadcrumbs.innerHTML = '';
+    var trail = [];
+    for (var n = current; n; n = n.parent) trail.unshift(n);
+    trail.forEach(function (node) {
+      var span = document.createElement('span');
+      span.textContent = node.name;
+      if (node !== current) span.addEventListener('click', function () { zoom(node); });
+      breadcrumbs.appendChild(span);
+    });
+
+    totals.textContent = 'Raw: ' + formatBytes(current.bytes) + ' \\u00b7 Gzip: ~' + formatBytes(current.gzip) +
+      (current === root ? '' : ' \\u00b7 ' + ((current.bytes / root.bytes) * 100).toFixed(1) + '% of bundle');
+  }
+
+  container.addEventListener('mouseleave', function () { tooltip.style.display = 'none'; });
+  window.addEventListener('resize', render);
+  render();
+})();
+`;
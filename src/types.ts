@@ -1,21 +1,44 @@
-import type { BuildOptions } from 'esbuild';
+import type { BuildOptions, Metafile } from 'esbuild';
+
+/**
+ * Entry points of a build: a single file, a list of files or a map of output names to files
+ */
+export type EntryPoints = string | string[] | Record<string, string>;
 
 /**
  * Configuration options for Backbundle
  */
 export interface BackbundleConfig {
-  /** Entry point file path */
-  entry: string;
+  /** Name of the build target, used to select it with `backbundle build <names...>` */
+  name?: string;
 
-  /** Output file path */
+  /**
+   * Entry point file path, or multiple entry points built into the output directory.
+   * Multiple entry points each include the modules they share unless `splitting` is enabled.
+   */
+  entry: EntryPoints;
+
+  /** Output file path, or the output directory when there are multiple entry points */
   output: string;
 
-  /** Framework preset to use */
+  /** Framework preset to use: a built-in or registered preset, or a preset package such as 'backbundle-preset-acme' */
   preset?: string;
 
+  /**
+   * Presets or config files to inherit from, later entries and this configuration taking precedence.
+   * Arrays are combined, prefix an item with `!` to remove an inherited one. Paths in config files are relative to their directory.
+   */
+  extends?: string | string[];
+
+  /** Custom presets to register, usable as `preset` or in `extends` */
+  presets?: FrameworkPreset[];
+
   /** Output format, defaults to 'cjs' */
   format?: 'cjs' | 'esm' | 'iife';
 
+  /** Split modules loaded with `await import()` into chunks next to the bundle, requires format 'esm' */
+  splitting?: boolean;
+
   /** Whether to minify the code, defaults to true */
   minify?: boolean;
 
@@ -31,18 +54,57 @@ export interface BackbundleConfig {
   /** Whether to exclude all npm packages, defaults to false */
   excludePackages?: boolean;
 
+  /** Bundle the packages of the monorepo workspace from source, even when npm packages are excluded (default: true) */
+  workspacePackages?: boolean;
+
   /** Custom aliases for module resolution */
   alias?: Record<string, string>;
 
   /** Environment variables replacement */
   define?: Record<string, string>;
 
+  /** Build mode, selects the `.env.<mode>` files to load */
+  mode?: string;
+
+  /** .env files to load, layered with their `.local`, `.<mode>` and `.<mode>.local` variants (default: '.env') */
+  envFile?: string | string[];
+
+  /** Prefixes of the environment variables inlined as `process.env.X` defines (default: 'BACKBUNDLE_') */
+  envPrefix?: string | string[];
+
   /** Whether to preserve function names, defaults to false */
   keepNames?: boolean;
 
+  /** Emit `design:*` decorator metadata by compiling files with decorators with the project's TypeScript */
+  decoratorMetadata?: boolean;
+
   /** Whether to enable tree shaking, defaults to true */
   treeShaking?: boolean;
 
+  /** Write a package.json (and pruned package-lock.json) for the external packages next to the output */
+  packageJson?: boolean | {
+    /** Whether to write a pruned package-lock.json when one is available, defaults to true */
+    lockfile?: boolean;
+  };
+
+  /** Copy the minimal node_modules tree needed by external packages into the output directory */
+  standalone?: boolean;
+
+  /** Copy files that bundled packages read relative to their own modules into the output and rewrite the references (default: false) */
+  relocateFiles?: boolean;
+
+  /**
+   * Replace optional dependencies that cannot be resolved with stubs throwing MODULE_NOT_FOUND at runtime:
+   * modules required inside try blocks or lazy loader helpers, and the listed packages
+   */
+  optionalDependencies?: boolean | {
+    /** Packages to stub wherever they are imported when they cannot be resolved */
+    packages?: string[];
+
+    /** Additional lazy loader helpers whose required modules are optional */
+    loaders?: string[];
+  };
+
   /** Additional esbuild options */
   esbuildOptions?: Partial<BuildOptions>;
 
@@ -59,6 +121,15 @@ export interface BackbundleConfig {
 
     /** Whether to preserve directory structure */
     preserveStructure?: boolean;
+
+    /** Deploy target of copied prebuilds, e.g. 'linux-x64-glibc' or 'linux-arm64-musl' */
+    target?: string;
+
+    /** Bundle copied packages and rewrite their addon loaders to require the copied files (default: true) */
+    rewriteLoaders?: boolean;
+
+    /** Recipes for packages with native files, replacing built-in recipes of the same name */
+    recipes?: PackageRecipe[];
   };
 
   /** WebAssembly modules handling configuration */
@@ -95,6 +166,40 @@ export interface BackbundleConfig {
   };
 }
 
+/**
+ * Configuration as written in a config file, where every option is optional
+ */
+export type UserConfig = Partial<BackbundleConfig>;
+
+/**
+ * Context passed to function configs
+ */
+export interface ConfigEnv {
+  /** Build mode, 'production' for builds and 'development' for the dev server unless set with --mode */
+  mode: string;
+
+  /** CLI command the configuration is loaded for */
+  command: 'build' | 'dev';
+
+  /** Environment variables */
+  env: Record<string, string | undefined>;
+}
+
+/**
+ * Function config that returns the configuration for a mode and command
+ */
+export type UserConfigFn = (env: ConfigEnv) => UserConfigTargets | Promise<UserConfigTargets>;
+
+/**
+ * A single configuration, or several build targets as an array or a record of named configurations
+ */
+export type UserConfigTargets = UserConfig | UserConfig[] | Record<string, UserConfig>;
+
+/**
+ * Default export of a config file
+ */
+export type UserConfigExport = UserConfigTargets | Promise<UserConfigTargets> | UserConfigFn;
+
 /**
  * Result of the bundle operation
  */
@@ -102,12 +207,15 @@ export interface BundleResult {
   /** Whether the bundle was successful */
   success: boolean;
 
-  /** Path to the output file */
+  /** Path to the output file, or the output directory when there are multiple entry points */
   outputPath: string;
 
-  /** Size of the output file in bytes */
+  /** Size of the output in bytes */
   size: number;
 
+  /** Individual output files with their sizes */
+  outputs?: BundleOutput[];
+
   /** Time taken to build in milliseconds */
   time: number;
 
@@ -116,6 +224,82 @@ export interface BundleResult {
 
   /** List of warnings if any */
   warnings?: string[];
+
+  /** Installed versions of the external packages imported by the bundle */
+  externalDependencies?: Record<string, string>;
+
+  /** Environment variables inlined into the bundle from .env files and the process environment */
+  env?: string[];
+
+  /** Optional dependencies that could not be resolved and were replaced with stubs */
+  stubbedDependencies?: string[];
+
+  /** Packages and files copied into the standalone node_modules tree */
+  standalone?: {
+    packages: string[];
+    files: number;
+  };
+
+  /** esbuild metafile describing the inputs and outputs of the build */
+  metafile?: Metafile;
+}
+
+/**
+ * A file written by the bundle operation
+ */
+export interface BundleOutput {
+  /** Absolute path to the output file */
+  path: string;
+
+  /** Size of the output file in bytes */
+  size: number;
+
+  /** Whether the file is a chunk loaded by entry points rather than an entry point itself */
+  chunk?: boolean;
+
+  /** Absolute path to the entry point the file was built from, unset for chunks */
+  entryPoint?: string;
+}
+
+/**
+ * How a package with native files is deployed when binary packages are copied
+ */
+export interface PackageRecipe {
+  /** Package name */
+  name: string;
+
+  /** Description of the recipe */
+  description?: string;
+
+  /**
+   * Glob patterns of the files to copy, relative to the package directory.
+   * `<package>:<pattern>` copies files of another package, resolved from this one (e.g. '.prisma/client:schema.prisma').
+   * Defaults to the package's native addons and prebuilds.
+   */
+  files?: string[];
+
+  /** Directory the files are copied into, relative to the output directory (default: the binary directory) */
+  outputDir?: string;
+
+  /**
+   * How the runtime locates the copied files:
+   * - 'loader': the package is bundled and its addon loaders are rewritten to require the copied files
+   * - 'node_modules': the package stays external and is copied with its dependencies into the output node_modules
+   * - 'env': the package is bundled and finds the copied files through `env`
+   */
+  locate?: 'loader' | 'node_modules' | 'env';
+
+  /** Additional packages copied whole, such as platform-specific binary packages ('@img/sharp-*') */
+  packages?: string[];
+
+  /**
+   * Environment variables set at startup unless already set, pointing at copied files.
+   * Values are paths relative to the output directory, where `*` matches copied file names.
+   */
+  env?: Record<string, string>;
+
+  /** Additional modules to mark as external */
+  external?: string[];
 }
 
 /**
@@ -130,4 +314,7 @@ export interface FrameworkPreset {
 
   /** Description of the preset */
   description: string;
+
+  /** Package the preset was loaded from, for third-party presets */
+  package?: string;
 }
@@ -0,0 +1,297 @@
+import { existsSync, watch, type FSWatcher } from 'fs';
+import { dirname, extname, isAbsolute, join, resolve, sep } from 'path';
+import { Bundler, getOutputDir } from './bundler.js';
+import { getEnvFiles } from './env.js';
+import type { BackbundleConfig, BundleResult } from './types.js';
+
+/**
+ * Reason a watch build was triggered
+ */
+export type WatchTrigger = 'initial' | 'source' | 'packages' | 'config' | 'env';
+
+/**
+ * Details about the changes that triggered a watch build
+ */
+export interface WatchChange {
+  /** What kind of change triggered the build */
+  trigger: WatchTrigger;
+
+  /** Absolute paths of the files that changed */
+  files: string[];
+}
+
+/**
+ * Options for watch mode
+ */
+export interface WatchOptions {
+  /** Resolve the full configuration, called again whenever the config file changes */
+  loadConfig: () => Promise<BackbundleConfig>;
+
+  /** Path to the configuration file to watch */
+  configFile?: string | null;
+
+  /** Called after every build with the changes that triggered it */
+  onBuild: (result: BundleResult, change: WatchChange, config: BackbundleConfig) => void;
+
+  /** Called when the configuration cannot be reloaded or a rebuild fails unexpectedly */
+  onError?: (error: unknown) => void;
+
+  /** Delay in milliseconds used to batch file system events, defaults to 100 */
+  debounce?: number;
+}
+
+/**
+ * Configuration sections that affect binary, WASM and asset handling
+ */
+const PACKAGE_CONFIG_KEYS = ['output', 'binaryPackages', 'wasmPackages', 'assetPackages'] as const;
+
+/**
+ * Source file extensions that trigger a rebuild when created next to watched inputs
+ */
+const SOURCE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs', '.json'];
+
+/**
+ * Incremental watch mode built on top of an esbuild context
+ */
+export class BundleWatcher {
+  private options: WatchOptions;
+  private bundler: Bundler | null = null;
+  private config: BackbundleConfig | null = null;
+  private sourceWatchers = new Map<string, FSWatcher>();
+  private staticWatchers: FSWatcher[] = [];
+  private inputs = new Set<string>();
+  private pendingFiles = new Set<string>();
+  private pendingTriggers = new Set<WatchTrigger>();
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  constructor(options: WatchOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Run the initial build and start watching for changes
+   */
+  async start(): Promise<void> {
+    this.config = await this.options.loadConfig();
+    this.bundler = new Bundler(this.config);
+    await this.build({ trigger: 'initial', files: [] }, true);
+    this.watchStatic();
+  }
+
+  /**
+   * Stop watching and release the esbuild context
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    for (const watcher of [...this.sourceWatchers.values(), ...this.staticWatchers]) {
+      watcher.close();
+    }
+    this.sourceWatchers.clear();
+    this.staticWatchers = [];
+
+    await this.running;
+    await this.bundler?.dispose();
+  }
+
+  /**
+   * Watch node_modules, the config file and the .env files, which do not change between builds
+   */
+  private watchStatic(): void {
+    const nodeModulesPath = join(process.cwd(), 'node_modules');
+    if (existsSync(nodeModulesPath)) {
+      const watcher = this.createWatcher(nodeModulesPath, (filename) => {
+        this.schedule('packages', join(nodeModulesPath, filename));
+      });
+      if (watcher) this.staticWatchers.push(watcher);
+    }
+
+    const { configFile } = this.options;
+    if (configFile) {
+      const watcher = this.createWatcher(dirname(configFile), (filename) => {
+        const changed = join(dirname(configFile), filename);
+        if (changed === configFile) {
+          this.schedule('config', changed);
+        }
+      });
+      if (watcher) this.staticWatchers.push(watcher);
+    }
+
+    const envFiles = getEnvFiles(this.config?.envFile, this.config?.mode).map(file => resolve(file));
+    for (const directory of new Set(envFiles.map(file => dirname(file)))) {
+      if (!existsSync(directory)) continue;
+
+      const watcher = this.createWatcher(directory, (filename) => {
+        const changed = join(directory, filename);
+        if (envFiles.includes(changed)) {
+          this.schedule('env', changed);
+        }
+      });
+      if (watcher) this.staticWatchers.push(watcher);
+    }
+  }
+
+  /**
+   * Watch the directories of all source inputs from the last build
+   */
+  private updateSourceWatchers(result: BundleResult): void {
+    const cwd = process.cwd();
+    const outputDir = getOutputDir(this.config!);
+    const inputs = new Set<string>();
+
+    for (const input of Object.keys(result.metafile?.inputs || {})) {
+      // Skip virtual modules created by plugins (e.g. "ns:path")
+      if (/^[a-z-]+:/i.test(input)) continue;
+
+      const fullPath = isAbsolute(input) ? input : resolve(cwd, input);
+      if (fullPath.split(sep).includes('node_modules')) continue;
+      inputs.add(fullPath);
+    }
+
+    // Keep the previous inputs if the build failed before producing a metafile
+    if (inputs.size === 0 && this.inputs.size > 0) return;
+
+    // Without any successful build, watch the entry directories recursively so fixing the error rebuilds.
+    // The project root is not watched recursively, as that would include node_modules.
+    const recursive = inputs.size === 0;
+    if (recursive) {
+      for (const entry of getEntryFiles(this.config!)) {
+        inputs.add(resolve(cwd, entry));
+      }
+    } else {
+      this.inputs = inputs;
+    }
+
+    const directories = new Set([...inputs].map(input => dirname(input)));
+
+    for (const [directory, watcher] of this.sourceWatchers) {
+      if (!directories.has(directory)) {
+        watcher.close();
+        this.sourceWatchers.delete(directory);
+      }
+    }
+
+    for (const directory of directories) {
+      if (this.sourceWatchers.has(directory)) continue;
+
+      const watcher = this.createWatcher(directory, (filename) => {
+        const changed = join(directory, filename);
+        if (changed.startsWith(outputDir + sep)) return;
+
+        if (this.inputs.has(changed) || SOURCE_EXTENSIONS.includes(extname(changed))) {
+          this.schedule('source', changed);
+        }
+      }, recursive && directory !== cwd);
+      if (watcher) this.sourceWatchers.set(directory, watcher);
+    }
+  }
+
+  /**
+   * Create a file system watcher, ignoring directories that cannot be watched
+   */
+  private createWatcher(directory: string, onChange: (filename: string) => void, recursive = false): FSWatcher | null {
+    try {
+      return watch(directory, { recursive }, (_event, filename) => {
+        if (filename) onChange(filename.toString());
+      });
+    } catch (error) {
+      console.warn(`⚠️  Unable to watch ${directory}:`, error instanceof Error ? error.message : String(error));
+      return null;
+    }
+  }
+
+  /**
+   * Queue a rebuild, batching changes that arrive within the debounce window
+   */
+  private schedule(trigger: WatchTrigger, file: string): void {
+    if (this.closed) return;
+
+    this.pendingTriggers.add(trigger);
+    this.pendingFiles.add(file);
+
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      // Report failures without rejecting the chain, so later changes still rebuild
+      this.running = this.running.then(async () => this.flush()).catch((error: unknown) => {
+        if (this.options.onError) {
+          this.options.onError(error);
+        } else {
+          console.error('❌ Rebuild failed:', error instanceof Error ? error.message : String(error));
+        }
+      });
+    }, this.options.debounce ?? 100);
+  }
+
+  /**
+   * Run a rebuild for all queued changes
+   */
+  private async flush(): Promise<void> {
+    if (this.closed || this.pendingFiles.size === 0) return;
+
+    const triggers = new Set(this.pendingTriggers);
+    const files = [...this.pendingFiles];
+    this.pendingTriggers.clear();
+    this.pendingFiles.clear();
+
+    let packages = triggers.has('packages');
+    let trigger: WatchTrigger = packages ? 'packages' : triggers.has('env') ? 'env' : 'source';
+
+    if (triggers.has('config')) {
+      trigger = 'config';
+      try {
+        const config = await this.options.loadConfig();
+        packages = packages || this.packageConfigChanged(config);
+        this.config = config;
+        this.bundler!.updateConfig(config);
+      } catch (error) {
+        this.options.onError?.(error);
+        return;
+      }
+    }
+
+    await this.build({ trigger, files }, packages);
+  }
+
+  /**
+   * Check whether a reloaded config changes how binary, WASM or asset packages are handled
+   */
+  private packageConfigChanged(config: BackbundleConfig): boolean {
+    return PACKAGE_CONFIG_KEYS.some(key =>
+      JSON.stringify(config[key]) !== JSON.stringify(this.config?.[key])
+    );
+  }
+
+  /**
+   * Build and report the result
+   */
+  private async build(change: WatchChange, packages: boolean): Promise<void> {
+    const result = await this.bundler!.rebuild({ packages });
+    this.updateSourceWatchers(result);
+    this.options.onBuild(result, change, this.config!);
+  }
+}
+
+/**
+ * Get the entry files of a configuration
+ */
+function getEntryFiles(config: BackbundleConfig): string[] {
+  const { entry } = config;
+  if (typeof entry === 'string') return [entry];
+  return Array.isArray(entry) ? entry : Object.values(entry);
+}
+
+/**
+ * Start watch mode, returning the watcher once the initial build has finished
+ */
+export async function watchBundle(options: WatchOptions): Promise<BundleWatcher> {
+  const watcher = new BundleWatcher(options);
+  await watcher.start();
+  return watcher;
+}
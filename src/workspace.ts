@@ -0,0 +1,262 @@
+import { existsSync, readFileSync } from 'fs';
+import { globSync } from 'glob';
+import { dirname, isAbsolute, join, parse, resolve } from 'path';
+
+/**
+ * A package of the monorepo workspace the project belongs to
+ */
+export interface WorkspacePackage {
+  /** Package name */
+  name: string;
+
+  /** Absolute path to the package directory */
+  dir: string;
+
+  /** Contents of the package.json */
+  packageJson: Record<string, unknown>;
+}
+
+/**
+ * tsconfig path mappings, with the directory the targets are relative to
+ */
+export interface PathMappings {
+  baseDir: string;
+  paths: Record<string, string[]>;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readJsonFile(file: string): Record<string, unknown> | null {
+  try {
+    const json: unknown = JSON.parse(stripJsonComments(readFileSync(file, 'utf-8')));
+    return isRecord(json) ? json : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove comments and trailing commas from JSON with comments, such as tsconfig.json
+ */
+export function stripJsonComments(contents: string): string {
+  let result = '';
+  let quote = false;
+
+  for (let i = 0; i < contents.length; i++) {
+    const char = contents[i];
+
+    if (quote) {
+      result += char;
+      if (char === '\\') result += contents[++i] ?? '';
+      else if (char === '"') quote = false;
+    } else if (char === '"') {
+      quote = true;
+      result += char;
+    } else if (char === '/' && contents[i + 1] === '/') {
+      while (i < contents.length && contents[i] !== '\n') i++;
+      result += '\n';
+    } else if (char === '/' && contents[i + 1] === '*') {
+      const end = contents.indexOf('*/', i + 2);
+      i = end === -1 ? contents.length : end + 1;
+    } else {
+      result += char;
+    }
+  }
+
+  return result.replace(/,(\s*[}\]])/g, '$1');
+}
+
+/**
+ * Read the `packages` list of pnpm-workspace.yaml, in block (`- 'packages/*'`) or flow (`['a', 'b']`) style
+ */
+export function parsePnpmWorkspace(contents: string): string[] {
+  const lines = contents.split(/\r?\n/);
+  const start = lines.findIndex(line => /^packages\s*:/.test(line));
+  if (start === -1) return [];
+
+  const unquote = (value: string) => value.replace(/\s+#.*$/, '').trim().replace(/^(['"])(.*)\1$/, '$2');
+
+  const inline = lines[start].replace(/^packages\s*:/, '').trim();
+  if (inline.startsWith('[')) {
+    return inline.replace(/^\[|\].*$/g, '').split(',').map(unquote).filter(Boolean);
+  }
+
+  const patterns: string[] = [];
+  for (const line of lines.slice(start + 1)) {
+    if (/^\S/.test(line)) break;
+    const item = /^\s+-\s*(.+)$/.exec(line);
+    if (item) patterns.push(unquote(item[1]));
+  }
+  return patterns.filter(Boolean);
+}
+
+/**
+ * Get the package patterns of a workspace root from pnpm-workspace.yaml or the `workspaces` field
+ */
+function getWorkspacePatterns(root: string): string[] | null {
+  const pnpmWorkspace = join(root, 'pnpm-workspace.yaml');
+  if (existsSync(pnpmWorkspace)) {
+    return parsePnpmWorkspace(readFileSync(pnpmWorkspace, 'utf-8'));
+  }
+
+  const packageJson = readJsonFile(join(root, 'package.json'));
+  const workspaces = packageJson?.workspaces;
+  const patterns: unknown = isRecord(workspaces) ? workspaces.packages : workspaces;
+  return Array.isArray(patterns) ? patterns.filter((pattern): pattern is string => typeof pattern === 'string') : null;
+}
+
+/**
+ * Find the root of the workspace a directory belongs to
+ */
+export function findWorkspaceRoot(baseDir: string = process.cwd()): string | null {
+  let dir = resolve(baseDir);
+  const { root } = parse(dir);
+
+  while (true) {
+    if (getWorkspacePatterns(dir)) return dir;
+    if (dir === root) return null;
+    dir = dirname(dir);
+  }
+}
+
+/**
+ * Find the packages of the workspace a directory belongs to
+ */
+export function findWorkspacePackages(baseDir: string = process.cwd()): WorkspacePackage[] {
+  const root = findWorkspaceRoot(baseDir);
+  if (!root) return [];
+
+  const patterns = getWorkspacePatterns(root) || [];
+  const include = patterns.filter(pattern => !pattern.startsWith('!')).map(pattern => `${pattern.replace(/\/$/, '')}/package.json`);
+  const ignore = ['**/node_modules/**', ...patterns.filter(pattern => pattern.startsWith('!')).map(pattern => `${pattern.slice(1).replace(/\/$/, '')}/package.json`)];
+
+  const packages: WorkspacePackage[] = [];
+  for (const file of globSync(include, { cwd: root, ignore, absolute: true })) {
+    const packageJson = readJsonFile(file);
+    if (typeof packageJson?.name === 'string') {
+      packages.push({ name: packageJson.name, dir: dirname(file), packageJson });
+    }
+  }
+
+  return packages.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Conditions preferred when resolving a workspace package's exports, source conditions first
+ */
+const SOURCE_CONDITIONS = ['source', 'typescript', 'node', 'import', 'require', 'default'];
+
+/**
+ * Pick the target of an exports entry, preferring source conditions
+ */
+function pickExportTarget(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const target = pickExportTarget(item);
+      if (target) return target;
+    }
+    return null;
+  }
+  if (!isRecord(value)) return null;
+
+  for (const condition of SOURCE_CONDITIONS) {
+    if (condition in value) {
+      const target = pickExportTarget(value[condition]);
+      if (target) return target;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the file a workspace package import points at, relative to the package directory.
+ * The `source` exports condition and `source` field are preferred over built output.
+ */
+export function getWorkspaceEntry(pkg: WorkspacePackage, subpath: string = ''): string | null {
+  const { exports } = pkg.packageJson;
+  const key = subpath ? `./${subpath}` : '.';
+
+  if (exports !== undefined) {
+    const entries = isRecord(exports) && Object.keys(exports).some(name => name.startsWith('.'))
+      ? exports
+      : { '.': exports };
+
+    if (key in entries) return pickExportTarget(entries[key]);
+
+    // Subpath patterns such as "./utils/*"
+    for (const [pattern, value] of Object.entries(entries)) {
+      const [prefix, suffix = ''] = pattern.split('*');
+      if (pattern.includes('*') && key.startsWith(prefix) && key.endsWith(suffix) && key.length >= prefix.length + suffix.length) {
+        const target = pickExportTarget(value);
+        return target && target.replace('*', key.slice(prefix.length, key.length - suffix.length));
+      }
+    }
+    return null;
+  }
+
+  if (subpath) return `./${subpath}`;
+
+  for (const field of ['source', 'main', 'module']) {
+    const value = pkg.packageJson[field];
+    if (typeof value === 'string') return value.startsWith('.') ? value : `./${value}`;
+  }
+  return './index';
+}
+
+/**
+ * Read the path mappings of a tsconfig.json, following relative `extends`
+ */
+export function readPathMappings(tsconfigPath: string, seen: string[] = []): PathMappings | null {
+  if (seen.includes(tsconfigPath) || !existsSync(tsconfigPath)) return null;
+
+  const tsconfig = readJsonFile(tsconfigPath);
+  if (!tsconfig) return null;
+
+  const options = isRecord(tsconfig.compilerOptions) ? tsconfig.compilerOptions : {};
+  const dir = dirname(tsconfigPath);
+  const inherited = typeof tsconfig.extends === 'string' && (tsconfig.extends.startsWith('.') || isAbsolute(tsconfig.extends))
+    ? readPathMappings(resolve(dir, tsconfig.extends.endsWith('.json') ? tsconfig.extends : `${tsconfig.extends}.json`), [...seen, tsconfigPath])
+    : null;
+
+  const baseDir = typeof options.baseUrl === 'string' ? resolve(dir, options.baseUrl) : null;
+  if (!isRecord(options.paths)) {
+    return inherited && baseDir ? { ...inherited, baseDir } : inherited;
+  }
+
+  const paths: Record<string, string[]> = {};
+  for (const [pattern, targets] of Object.entries(options.paths)) {
+    if (Array.isArray(targets)) {
+      paths[pattern] = targets.filter((target): target is string => typeof target === 'string');
+    }
+  }
+  return { baseDir: baseDir || dir, paths };
+}
+
+/**
+ * Map an import specifier through tsconfig paths, returning the candidate files in order
+ */
+export function matchPathMappings(specifier: string, mappings: PathMappings): string[] {
+  let best: { targets: string[]; wildcard: string; prefixLength: number } | null = null;
+
+  for (const [pattern, targets] of Object.entries(mappings.paths)) {
+    const [prefix, suffix] = pattern.split('*');
+    if (suffix === undefined) {
+      if (pattern === specifier) return targets.map(target => resolve(mappings.baseDir, target));
+      continue;
+    }
+
+    // The longest matching prefix wins, as in TypeScript
+    const matches = specifier.startsWith(prefix) && specifier.endsWith(suffix) &&
+      specifier.length >= prefix.length + suffix.length;
+    if (matches && (!best || prefix.length > best.prefixLength)) {
+      best = { targets, wildcard: specifier.slice(prefix.length, specifier.length - suffix.length), prefixLength: prefix.length };
+    }
+  }
+
+  return best
+    ? best.targets.map(target => resolve(mappings.baseDir, target.replace('*', best.wildcard)))
+    : [];
+}
@@ -1,8 +1,10 @@
+import { writeFileSync } from 'node:fs'
 import { defineConfig } from 'tsdown'
+import { CONFIG_SCHEMA } from './src/config-schema.ts'
 
 export default defineConfig({
     // Entry files
-    entry: ['src/index.ts', 'src/cli.ts'],
+    entry: ['src/index.ts', 'src/cli.ts', 'src/runtime.ts'],
 
     // Output directory
     outDir: 'dist',
@@ -39,5 +41,10 @@ export default defineConfig({
     treeshake: true,
 
     // Code minification
-    minify: true
+    minify: true,
+
+    // Publish the configuration JSON Schema for editor autocompletion
+    onSuccess() {
+        writeFileSync('dist/schema.json', JSON.stringify(CONFIG_SCHEMA, null, 2) + '\n')
+    }
 })